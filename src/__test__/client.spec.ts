@@ -0,0 +1,217 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import { renderClient } from '../client'
+import { generateIROperations, resolveFormatTypes } from '../functions'
+import { generateTypes } from '../openapi-typings-gen'
+import { OpenApiIR } from '../types'
+import { loadModule } from './helpers'
+
+// only the CLI formats the output, and prettier's dynamic imports need the experimental VM modules of jest
+jest.mock('prettier', () => ({}))
+
+const operations = generateIROperations(
+    {
+        paths: {
+            '/pets/{petId}': {
+                get: {
+                    operationId: 'getPet',
+                    parameters: [
+                        { name: 'petId', in: 'path', required: true, schema: { type: 'string' } },
+                        { name: 'tags', in: 'query', schema: { type: 'array', items: { type: 'string' } } },
+                        { name: 'X-Tenant', in: 'header', schema: { type: 'string' } },
+                        { name: 'session', in: 'cookie', schema: { type: 'string' } },
+                    ],
+                    responses: {
+                        '200': {
+                            description: 'ok',
+                            headers: {
+                                'X-Rate-Limit': { schema: { type: 'integer' } },
+                                Link: { schema: { type: 'array', items: { type: 'string' } } },
+                            },
+                        },
+                        '4XX': { description: 'error', headers: { 'Retry-After': { schema: { type: 'integer' } } } },
+                    },
+                },
+                put: {
+                    operationId: 'updatePet',
+                    parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'string' } }],
+                    requestBody: {
+                        content: {
+                            'application/json': { schema: { type: 'object' } },
+                            'application/x-www-form-urlencoded': { schema: { type: 'object' } },
+                        },
+                    },
+                    responses: { '204': { description: 'updated' }, '404': { description: 'missing' } },
+                },
+            },
+        },
+        components: {},
+    } as unknown as OpenApiIR,
+    false,
+)
+
+type Method = (parameters?: unknown, data?: unknown) => Promise<unknown>
+
+/** The parts of the generated client the tests call */
+interface ClientModule {
+    createClient(options: {
+        baseURL: string
+        fetch?: (request: Request) => Promise<Response>
+        middleware?: ((request: Request, next: (request: Request) => Promise<Response>) => Promise<Response>)[]
+    }): Record<'getPet' | 'updatePet', Method> & {
+        paths: Record<string, Record<string, Method>>
+        withHeaders: Record<'getPet' | 'updatePet', Method>
+    }
+    ApiError: new (...args: never[]) => Error & { response: Response; data: unknown }
+}
+
+const loadClient = () => loadModule<ClientModule>(renderClient(operations))
+
+type Recorded = { method?: string; url?: string; headers: http.IncomingHttpHeaders; body: string }
+
+describe('fetch client', () => {
+    const received: Recorded[] = []
+    let server: http.Server
+    let baseURL: string
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let body = ''
+            req.on('data', (chunk) => (body += chunk))
+            req.on('end', () => {
+                received.push({ method: req.method, url: req.url, headers: req.headers, body })
+                if (req.url?.startsWith('/v1/pets/missing')) {
+                    res.writeHead(404, { 'content-type': 'application/json', 'retry-after': '30' }).end(
+                        '{"message":"not found"}',
+                    )
+                } else if (req.method === 'PUT') {
+                    res.writeHead(204).end()
+                } else {
+                    res.writeHead(200, {
+                        'content-type': 'application/json',
+                        'x-rate-limit': '99',
+                        link: '</pets?page=2>; rel="next", </pets?page=9>; rel="last"',
+                    }).end('{"id":"1"}')
+                }
+            })
+        })
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+        baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`
+    })
+
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())))
+    beforeEach(() => (received.length = 0))
+
+    it('fills path, query, header and cookie parameters', async () => {
+        const client = loadClient().createClient({ baseURL })
+        const pet = await client.getPet({ petId: 'a b', tags: ['x', 'y'], 'X-Tenant': 't1', session: 's1' })
+
+        expect(pet).toEqual({ id: '1' })
+        expect(received[0].url).toBe('/v1/pets/a%20b?tags=x&tags=y')
+        expect(received[0].headers['x-tenant']).toBe('t1')
+        expect(received[0].headers.cookie).toBe('session=s1')
+    })
+
+    it('is keyed by path and encodes bodies by content type', async () => {
+        const client = loadClient().createClient({ baseURL })
+
+        await expect(client.paths['/pets/{petId}'].put('1', { name: 'Rex' })).resolves.toBeUndefined()
+        await client.updatePet('1', new URLSearchParams({ name: 'Rex' }))
+
+        expect(received.map((r) => [r.method, r.headers['content-type'], r.body])).toEqual([
+            ['PUT', 'application/json', '{"name":"Rex"}'],
+            ['PUT', 'application/x-www-form-urlencoded;charset=UTF-8', 'name=Rex'],
+        ])
+    })
+
+    it('runs middleware and a custom fetch around requests', async () => {
+        const calls: string[] = []
+        const client = loadClient().createClient({
+            baseURL,
+            fetch: (request: Request) => {
+                calls.push(`fetch ${request.headers.get('authorization')}`)
+                return fetch(request)
+            },
+            middleware: [
+                async (request: Request, next: (request: Request) => Promise<Response>) => {
+                    request.headers.set('authorization', 'Bearer token')
+                    const response = await next(request)
+                    calls.push(`after ${response.status}`)
+                    return response
+                },
+            ],
+        })
+        await client.getPet('1')
+
+        expect(calls).toEqual(['fetch Bearer token', 'after 200'])
+        expect(received[0].url).toBe('/v1/pets/1')
+    })
+
+    it('throws an ApiError with the parsed body for error statuses', async () => {
+        const { createClient, ApiError } = loadClient()
+
+        const error = await createClient({ baseURL })
+            .getPet('missing')
+            .catch((e: unknown) => e)
+        expect(error).toBeInstanceOf(ApiError)
+        expect(error instanceof ApiError && [error.response.status, error.data]).toEqual([
+            404,
+            { message: 'not found' },
+        ])
+    })
+
+    it('resolves to the status, body and parsed headers with withHeaders', async () => {
+        const client = loadClient().createClient({ baseURL })
+
+        expect(await client.withHeaders.getPet('1')).toEqual({
+            status: 200,
+            data: { id: '1' },
+            headers: { 'X-Rate-Limit': 99, Link: ['</pets?page=2>; rel="next"', '</pets?page=9>; rel="last"'] },
+        })
+        expect(await client.withHeaders.getPet('missing')).toEqual({
+            status: 404,
+            data: { message: 'not found' },
+            headers: { 'Retry-After': 30 },
+        })
+    })
+
+    it('revives formats with the response validators of zod', async () => {
+        const spec = {
+            paths: {
+                '/pets/{petId}': {
+                    get: {
+                        operationId: 'getPet',
+                        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'string' } }],
+                        responses: {
+                            '200': {
+                                description: 'ok',
+                                content: {
+                                    'application/json': {
+                                        schema: {
+                                            type: 'object',
+                                            properties: { bornAt: { type: 'string', format: 'date-time' } },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+            components: {},
+        } as unknown as OpenApiIR
+        const source = await generateTypes(
+            spec,
+            false,
+            true,
+            { formatTypes: resolveFormatTypes('date-time=Date') },
+            { client: true },
+        )
+        const { createClient } = loadModule<ClientModule>(source)
+        const bornAt = '2024-05-01T10:00:00.000Z'
+
+        const pet = await createClient({ baseURL, fetch: async () => Response.json({ bornAt }) }).getPet('1')
+
+        expect(pet).toEqual({ bornAt: new Date(bornAt) })
+    })
+})
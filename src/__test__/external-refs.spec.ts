@@ -0,0 +1,143 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { loadSpec } from '../spec-loader'
+import { Schema } from '../types'
+
+const files: Record<string, string> = {
+    'openapi.yaml': `
+openapi: 3.0.0
+paths:
+  /invoices:
+    get:
+      responses:
+        '200':
+          description: ok
+          content:
+            application/json:
+              schema:
+                $ref: './schemas/billing.yaml#/Invoice'
+        default:
+          description: error
+          content:
+            application/json:
+              schema:
+                $ref: './common.yaml#/Error'
+  /pets:
+    $ref: './paths/pets.yaml'
+components:
+  schemas:
+    Tag:
+      $ref: './schemas/tag.yaml'
+`,
+    'common.yaml': `
+Error:
+  type: object
+  properties:
+    message: { type: string }
+`,
+    'paths/pets.yaml': `
+get:
+  responses:
+    '200':
+      description: ok
+      content:
+        application/json:
+          schema:
+            type: array
+            items:
+              $ref: '../schemas/pet.yaml#/Pet'
+`,
+    'schemas/billing.yaml': `
+Invoice:
+  type: object
+  properties:
+    error: { $ref: '#/Error' }
+    pet: { $ref: './pet.yaml#/Pet' }
+Error:
+  type: object
+  properties:
+    code: { type: integer }
+`,
+    'schemas/pet.yaml': `
+Pet:
+  type: object
+  properties:
+    owner: { $ref: './owner.yaml#/Owner' }
+    tag: { $ref: './tag.yaml' }
+`,
+    'schemas/owner.yaml': `
+Owner:
+  type: object
+  properties:
+    pets:
+      type: array
+      items: { $ref: './pet.yaml#/Pet' }
+`,
+    'schemas/tag.yaml': `
+type: string
+`,
+}
+
+describe('external refs', () => {
+    let dir: string
+
+    beforeAll(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'external-refs-'))
+        for (const [file, content] of Object.entries(files)) {
+            await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true })
+            await fs.writeFile(path.join(dir, file), content)
+        }
+    })
+
+    afterAll(async () => {
+        await fs.rm(dir, { recursive: true, force: true })
+    })
+
+    it('hoists schemas of other files into uniquely named components', async () => {
+        const spec = await loadSpec(path.join(dir, 'openapi.yaml'))
+        const schemas = spec.components.schemas as Record<string, Schema>
+
+        expect(Object.keys(schemas)).toEqual(['Tag', 'Invoice', 'Error', 'Pet', 'Owner', 'CommonError'])
+        expect(schemas.Tag).toEqual({ type: 'string' })
+        expect(schemas.Invoice.properties).toEqual({
+            error: { $ref: '#/components/schemas/Error' },
+            pet: { $ref: '#/components/schemas/Pet' },
+        })
+        expect(schemas.CommonError.properties).toEqual({ message: { type: 'string' } })
+        expect(spec.paths['/invoices'].get?.responses.default).toMatchObject({
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/CommonError' } } },
+        })
+    })
+
+    it('resolves circular refs between files', async () => {
+        const schemas = (await loadSpec(path.join(dir, 'openapi.yaml'))).components.schemas as Record<string, Schema>
+
+        expect(schemas.Pet.properties).toEqual({
+            owner: { $ref: '#/components/schemas/Owner' },
+            tag: { $ref: '#/components/schemas/Tag' },
+        })
+        expect(schemas.Owner.properties?.pets).toEqual({ type: 'array', items: { $ref: '#/components/schemas/Pet' } })
+    })
+
+    it('inlines other parts relative to the file they are in', async () => {
+        const spec = await loadSpec(path.join(dir, 'openapi.yaml'))
+
+        expect(spec.paths['/pets'].get?.responses['200']).toMatchObject({
+            content: {
+                'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } },
+            },
+        })
+    })
+
+    it('reports refs that can not be resolved', async () => {
+        await fs.writeFile(
+            path.join(dir, 'broken.yaml'),
+            `openapi: 3.0.0\npaths:\n  /a:\n    $ref: './common.yaml#/Missing'\n`,
+        )
+
+        await expect(loadSpec(path.join(dir, 'broken.yaml'))).rejects.toThrow(
+            `Can't resolve $ref file://${dir}/common.yaml#/Missing`,
+        )
+    })
+})
@@ -0,0 +1,38 @@
+import ts from 'typescript'
+
+/**
+ * Type errors of a generated module, next to the declarations of e.g. packages that aren't
+ * installed, such as `declare module '@tanstack/react-query' { ... }`
+ */
+export const typeErrors = (source: string, declarations = ''): string[] => {
+    const files: Record<string, string> = { 'module.ts': source, 'declarations.d.ts': declarations }
+    const options: ts.CompilerOptions = {
+        strict: true,
+        noEmit: true,
+        types: [],
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+    }
+    const host = ts.createCompilerHost(options)
+    const { getSourceFile, fileExists, readFile } = host
+    host.getSourceFile = (name, ...rest) =>
+        name in files ? ts.createSourceFile(name, files[name], ts.ScriptTarget.ES2022) : getSourceFile(name, ...rest)
+    host.fileExists = (name) => name in files || fileExists(name)
+    host.readFile = (name) => files[name] ?? readFile(name)
+    const program = ts.createProgram(Object.keys(files), options, host)
+    return ts
+        .getPreEmitDiagnostics(program)
+        .map((d) => `${d.file?.fileName ?? ''} TS${d.code}: ${ts.flattenDiagnosticMessageText(d.messageText, '\n')}`)
+}
+
+/** Transpiles a generated module to CommonJS and evaluates it, its imports such as `zod` are required from here */
+export const loadModule = <T>(source: string): T => {
+    const { outputText } = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    })
+    const module = { exports: {} }
+    new Function('module', 'exports', 'require', outputText)(module, module.exports, require)
+    return module.exports as T
+}
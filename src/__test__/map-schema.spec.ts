@@ -0,0 +1,431 @@
+import {
+    generateComponentTypes,
+    generateIROperations,
+    mapSchemaToTypeNode,
+    renderComponents,
+    renderImports,
+    renderType,
+    renderZod,
+    resolveFormatTypes,
+} from '../functions'
+import { Schema } from '../types'
+
+const render = (schema: Schema) => {
+    const node = mapSchemaToTypeNode(schema)
+    return { ts: renderType(node), zod: renderZod(node) }
+}
+
+describe('OpenAPI 3.1 schemas', () => {
+    it('maps type lists to unions', () => {
+        expect(render({ type: ['string', 'null'] })).toEqual({ ts: 'string | null', zod: 'z.string().nullable()' })
+        expect(render({ type: ['string', 'number'] })).toEqual({
+            ts: 'string | number',
+            zod: 'z.union([z.string(), z.number()])',
+        })
+        expect(render({ type: ['integer'] }).ts).toBe('number')
+    })
+
+    it('maps const to literal types', () => {
+        expect(render({ const: 'cat' })).toEqual({ ts: '"cat"', zod: 'z.literal("cat")' })
+        expect(render({ const: 42 }).ts).toBe('42')
+        expect(render({ const: null }).ts).toBe('null')
+    })
+
+    it('maps prefixItems to tuples', () => {
+        const closed = render({ type: 'array', prefixItems: [{ type: 'number' }, { type: 'string' }], items: false })
+        expect(closed).toEqual({ ts: '[number, string]', zod: 'z.tuple([z.number(), z.string()])' })
+
+        const open = render({ type: 'array', prefixItems: [{ type: 'string' }], items: { type: 'boolean' } })
+        expect(open).toEqual({ ts: '[string, ...boolean[]]', zod: 'z.tuple([z.string()], z.boolean())' })
+    })
+
+    it('maps unevaluatedProperties schemas to records', () => {
+        const result = render({ type: 'object', unevaluatedProperties: { type: 'integer' } })
+        expect(result).toEqual({ ts: 'Record<string, number>', zod: 'z.record(z.string(), z.number().int())' })
+    })
+
+    it('uses the first entry of examples as the example', () => {
+        const node = mapSchemaToTypeNode({ type: 'string', examples: ['first', 'second'] })
+        expect(node.example).toBe('first')
+    })
+
+    it('renders any as z.any()', () => {
+        expect(render({}).zod).toBe('z.any()')
+    })
+
+    it('hoists $defs into named components', () => {
+        const components = generateComponentTypes({
+            schemas: {
+                Pet: {
+                    type: 'object',
+                    properties: { tag: { $ref: '#/components/schemas/Pet/$defs/Tag' } },
+                    $defs: { Tag: { type: 'string' } },
+                },
+            },
+        } as any)
+
+        expect(components.map((c) => c.name)).toEqual(['Pet', 'Tag'])
+        expect(renderType(components[0].type)).toContain('tag?: Components.Schemas.Tag;')
+    })
+
+    it('names $defs colliding with other components after their schema', () => {
+        const spec = {
+            paths: {
+                '/pets': {
+                    post: {
+                        operationId: 'createPet',
+                        parameters: [],
+                        requestBody: {
+                            content: {
+                                'application/json': { schema: { $ref: '#/components/schemas/Owner/$defs/Address' } },
+                            },
+                        },
+                        responses: {},
+                    },
+                },
+            },
+            components: {
+                schemas: {
+                    Address: { type: 'string' },
+                    Pet: {
+                        type: 'object',
+                        properties: { address: { $ref: '#/components/schemas/Pet/$defs/Address' } },
+                        $defs: { Address: { type: 'object', properties: { street: { type: 'string' } } } },
+                    },
+                    Owner: {
+                        type: 'object',
+                        properties: { address: { $ref: '#/components/schemas/Owner/$defs/Address' } },
+                        $defs: { Address: { type: 'object', properties: { city: { type: 'string' } } } },
+                    },
+                },
+            },
+        } as any
+        const components = generateComponentTypes(spec.components)
+        const byName = Object.fromEntries(components.map((c) => [c.name, renderType(c.type)]))
+        const [createPet] = generateIROperations(spec, false)
+
+        expect(Object.keys(byName)).toEqual(['Address', 'Pet', 'Owner', 'PetAddress', 'OwnerAddress'])
+        expect(byName.Pet).toContain('address?: Components.Schemas.PetAddress;')
+        expect(byName.Owner).toContain('address?: Components.Schemas.OwnerAddress;')
+        expect(byName.OwnerAddress).toContain('city?: string;')
+        expect(renderType(createPet.requestBody!.type)).toBe('Components.Schemas.OwnerAddress')
+    })
+})
+
+describe('nested schemas', () => {
+    it('maps inline schemas nested at any depth', () => {
+        const schema = [...Array(10)].reduce<Schema>((inner) => ({ type: 'object', properties: { child: inner } }), {
+            type: 'integer',
+        })
+
+        expect(render(schema).ts.replace(/\s+/g, ' ')).toContain('child?: number;')
+    })
+
+    it('maps an inline schema containing itself to any', () => {
+        const schema: Schema = { type: 'object', properties: {} }
+        schema.properties!.self = { type: 'array', items: schema }
+
+        expect(render(schema).ts.replace(/\s+/g, ' ')).toBe('{ self?: any[]; }')
+    })
+})
+
+describe('nullable schemas', () => {
+    it('renders OAS 3.0 nullable primitives', () => {
+        expect(render({ type: 'string', nullable: true })).toEqual({
+            ts: 'string | null',
+            zod: 'z.string().nullable()',
+        })
+    })
+
+    it('renders nullable properties and array items', () => {
+        const { ts, zod } = render({
+            type: 'object',
+            required: ['tags'],
+            properties: {
+                tags: { type: 'array', items: { type: 'string', nullable: true } },
+                owner: { type: 'object', nullable: true, properties: { id: { type: 'integer' } } },
+            },
+        })
+
+        expect(ts).toContain('tags: (string | null)[];')
+        expect(ts).toMatch(/owner\?: \{\n\s+id\?: number;\n\} \| null;/)
+        expect(zod).toContain('"tags": z.array(z.string().nullable())')
+        expect(zod).toContain('"owner": z.object({ "id": z.number().int().optional() }).nullable().optional()')
+    })
+
+    it('renders nullable refs and null variants of anyOf', () => {
+        expect(render({ $ref: '#/components/schemas/Pet', nullable: true } as any)).toEqual({
+            ts: 'Components.Schemas.Pet | null',
+            zod: 'Components.Schemas.PetSchema.nullable()',
+        })
+        expect(render({ anyOf: [{ $ref: '#/components/schemas/Pet' }, { type: 'null' }] }).ts).toBe(
+            'Components.Schemas.Pet | null',
+        )
+    })
+})
+
+describe('intersections', () => {
+    const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` })
+
+    it('parenthesizes nullable and union members', () => {
+        expect(render({ allOf: [{ ...ref('A'), nullable: true }, ref('B')] } as Schema).ts).toBe(
+            '(Components.Schemas.A | null) & Components.Schemas.B',
+        )
+        expect(render({ allOf: [{ oneOf: [ref('A'), ref('B')] }, ref('C')] } as Schema).ts).toBe(
+            '(Components.Schemas.A | Components.Schemas.B) & Components.Schemas.C',
+        )
+    })
+})
+
+describe('additionalProperties and patternProperties', () => {
+    it('renders maps as records', () => {
+        expect(render({ type: 'object', additionalProperties: { $ref: '#/components/schemas/Pet' } })).toEqual({
+            ts: 'Record<string, Components.Schemas.Pet>',
+            zod: 'z.record(z.string(), Components.Schemas.PetSchema)',
+        })
+        expect(render({ additionalProperties: { type: 'integer' } }).ts).toBe('Record<string, number>')
+    })
+
+    it('renders closed objects', () => {
+        const { ts, zod } = render({
+            type: 'object',
+            required: ['id'],
+            properties: { id: { type: 'string' } },
+            additionalProperties: false,
+        })
+        expect(ts).toBe('{\n    id: string;\n}')
+        expect(zod).toBe('z.object({ "id": z.string() }).strict()')
+        expect(render({ type: 'object', additionalProperties: false }).ts).toBe('Record<string, never>')
+    })
+
+    it('renders mixed objects with a typed index signature', () => {
+        const { ts, zod } = render({
+            type: 'object',
+            required: ['id'],
+            properties: { id: { type: 'string' }, count: { type: 'integer' } },
+            additionalProperties: { type: 'boolean' },
+        })
+        expect(ts).toContain('[key: string]: boolean | string | number | undefined;')
+        expect(zod).toBe('z.object({ "id": z.string(), "count": z.number().int().optional() }).catchall(z.boolean())')
+    })
+
+    it('combines patternProperties into the index signature', () => {
+        const result = render({
+            type: 'object',
+            patternProperties: { '^x-': { type: 'string' }, '^n-': { type: 'number' } },
+        })
+        expect(result).toEqual({
+            ts: 'Record<string, string | number>',
+            zod: 'z.record(z.string(), z.union([z.string(), z.number()]))',
+        })
+    })
+})
+
+describe('discriminated unions', () => {
+    const pet: Schema = {
+        oneOf: [
+            { $ref: '#/components/schemas/Cat' },
+            { $ref: '#/components/schemas/Dog' },
+            { type: 'object', required: ['kind'], properties: { kind: { type: 'string', enum: ['fish'] } } },
+        ],
+        discriminator: { propertyName: 'kind', mapping: { doggo: '#/components/schemas/Dog' } },
+    }
+
+    it('narrows the tag of every member to a literal', () => {
+        const { ts } = render(pet)
+        expect(ts).toContain('(Components.Schemas.Cat & { kind: "Cat" })')
+        expect(ts).toContain('(Components.Schemas.Dog & { kind: "doggo" })')
+        expect(ts).toContain('kind: "fish";')
+    })
+
+    it('renders z.discriminatedUnion keyed on the discriminator property', () => {
+        const { zod } = render(pet)
+        expect(zod).toMatch(/^z\.discriminatedUnion\("kind", \[/)
+        expect(zod).toContain(
+            'z.looseObject({ "kind": z.literal("Cat") }).pipe(Components.Schemas.CatSchema as z.ZodType<Components.Schemas.Cat & { kind: "Cat" }, any>)',
+        )
+        expect(zod).toContain('z.object({ "kind": z.literal("fish") })')
+    })
+
+    it('falls back to a plain union when a member has no resolvable tag', () => {
+        const { zod } = render({
+            oneOf: [{ $ref: '#/components/schemas/Cat' }, { type: 'object', properties: { a: { type: 'string' } } }],
+            discriminator: { propertyName: 'kind' },
+        })
+        expect(zod).toMatch(/^z\.union\(/)
+    })
+})
+
+describe('validation keywords', () => {
+    it('renders string constraints and formats', () => {
+        expect(render({ type: 'string', minLength: 1, maxLength: 64, pattern: '^[a-z]+$' }).zod).toBe(
+            'z.string().min(1).max(64).regex(new RegExp("^[a-z]+$"))',
+        )
+        expect(render({ type: 'string', format: 'email' }).zod).toBe('z.email()')
+        expect(render({ type: 'string', format: 'uuid', nullable: true }).zod).toBe('z.uuid().nullable()')
+        expect(render({ type: 'string', format: 'date-time' }).zod).toBe('z.iso.datetime({ offset: true })')
+        expect(render({ type: 'string', format: 'unknown-format' }).zod).toBe('z.string()')
+    })
+
+    it('renders number constraints for OAS 3.0 and 3.1 exclusive bounds', () => {
+        expect(render({ type: 'integer', minimum: 0, maximum: 10, exclusiveMaximum: true }).zod).toBe(
+            'z.number().int().min(0).lt(10)',
+        )
+        expect(render({ type: 'number', exclusiveMinimum: 0, multipleOf: 0.5 }).zod).toBe(
+            'z.number().gt(0).multipleOf(0.5)',
+        )
+    })
+
+    it('renders array constraints', () => {
+        const { zod } = render({
+            type: 'array',
+            items: { type: 'string' },
+            minItems: 1,
+            maxItems: 3,
+            uniqueItems: true,
+        })
+        expect(zod).toMatch(/^z\.array\(z\.string\(\)\)\.min\(1\)\.max\(3\)\.refine\(/)
+    })
+
+    it('lists constraints in the JSDoc of properties', () => {
+        const { ts } = render({
+            type: 'object',
+            properties: { email: { type: 'string', format: 'email', maxLength: 320, description: 'Contact' } },
+        })
+        expect(ts).toContain(' * Contact\n * @format email\n * @maxLength 320\n */\n    email?: string;')
+    })
+})
+
+describe('format type mapping', () => {
+    const options = { formatTypes: resolveFormatTypes('default') }
+    const renderMapped = (schema: Schema) => {
+        const node = mapSchemaToTypeNode(schema, [], 0, options)
+        return { ts: renderType(node), zod: renderZod(node) }
+    }
+
+    it('keeps strings and numbers unless opted in', () => {
+        expect(render({ type: 'string', format: 'date-time' }).ts).toBe('string')
+        expect(render({ type: 'integer', format: 'int64' }).ts).toBe('number')
+    })
+
+    it('maps formats to runtime types', () => {
+        expect(renderMapped({ type: 'string', format: 'date-time', nullable: true })).toEqual({
+            ts: 'Date | null',
+            zod: 'z.coerce.date().nullable()',
+        })
+        expect(renderMapped({ type: 'integer', format: 'int64' })).toEqual({ ts: 'bigint', zod: 'z.coerce.bigint()' })
+        expect(renderMapped({ type: 'string', format: 'binary' })).toEqual({ ts: 'Blob', zod: 'z.instanceof(Blob)' })
+        expect(renderMapped({ type: 'string', format: 'uuid' })).toEqual({
+            ts: 'Branded<string, "uuid">',
+            zod: 'z.uuid().transform((value) => value as Branded<string, "uuid">)',
+        })
+    })
+
+    it('parses custom mappings and rejects unknown targets', () => {
+        expect(Object.keys(resolveFormatTypes('date=Date, int32=bigint'))).toEqual(['date', 'int32'])
+        expect(() => resolveFormatTypes('date=Moment')).toThrow('Invalid format type "date=Moment"')
+    })
+})
+
+describe('type overrides', () => {
+    it('uses x-ts-type and imports it from x-ts-import', () => {
+        const node = mapSchemaToTypeNode({ type: 'string', 'x-ts-type': 'Decimal', 'x-ts-import': 'decimal.js' })
+        expect(renderType(node)).toBe('Decimal')
+        expect(renderZod(node)).toBe('z.custom<Decimal>()')
+        expect(node.imports).toEqual([{ name: 'Decimal', from: 'decimal.js', typeOnly: true }])
+    })
+
+    it('replaces configured components and formats and aliases clashing imports', () => {
+        const typeOverrides = {
+            components: { Money: { type: 'Money', import: './money', zod: 'MoneySchema' } },
+            formats: { 'user-id': { type: 'UserId', import: './ids' } },
+        }
+        const components = generateComponentTypes(
+            {
+                schemas: {
+                    Money: { type: 'object', properties: { amount: { type: 'string' } } },
+                    Order: { type: 'object', properties: { owner: { type: 'string', format: 'user-id' } } },
+                },
+            } as any,
+            { typeOverrides, reservedNames: new Set(['Money', 'MoneySchema', 'Order', 'OrderSchema']) },
+        )
+
+        expect(renderType(components[0].type)).toBe('ImportedMoney')
+        expect(renderZod(components[0].type)).toBe('ImportedMoneySchema')
+        expect(renderType(components[1].type)).toContain('owner?: UserId;')
+        expect(renderImports(components, [], true).split('\n')).toEqual([
+            "import type { Money as ImportedMoney } from './money'",
+            "import { MoneySchema as ImportedMoneySchema } from './money'",
+            "import type { UserId } from './ids'",
+        ])
+        expect(renderImports(components, [], false)).not.toContain('MoneySchema')
+    })
+})
+
+describe('enums', () => {
+    const schemas = {
+        Priority: {
+            type: 'integer',
+            enum: [1, 3],
+            'x-enum-varnames': ['Low', 'High'],
+            'x-enum-descriptions': ['Can wait', 'Right now'],
+        },
+        Order: {
+            type: 'object',
+            properties: {
+                status: { type: 'string', enum: ['open', 'in_progress'] },
+                level: { type: 'integer', enum: [1, 3], 'x-enum-varnames': ['Low', 'High'] },
+                kind: { type: 'string', enum: ['a', 'b'] },
+            },
+        },
+        Shipment: {
+            type: 'object',
+            properties: { state: { type: 'string', enum: ['open', 'in_progress'], nullable: true } },
+        },
+    }
+    const renderEnums = (enumStyle?: 'union' | 'enum' | 'const') =>
+        renderComponents(generateComponentTypes({ schemas } as any, { enumStyle }), true).replace(/\s+/g, ' ')
+
+    it('validates string enums with z.enum', () => {
+        expect(render({ type: 'string', enum: ['a', 'b'] })).toEqual({ ts: '"a" | "b"', zod: 'z.enum(["a", "b"])' })
+        expect(render({ type: 'integer', enum: [1, 2] }).zod).toBe('z.union([z.literal(1), z.literal(2)])')
+    })
+
+    it('extracts enums repeated across properties into a component named after the first one', () => {
+        const components = generateComponentTypes({ schemas } as any)
+
+        expect(components.map((c) => c.name)).toEqual(['Priority', 'Order', 'Shipment', 'Status'])
+        expect(renderType(components[1].type)).toContain('status?: Components.Schemas.Status;')
+        expect(renderType(components[1].type)).toContain('kind?: "a" | "b";')
+        expect(renderType(components[2].type)).toContain('state?: Components.Schemas.Status | null;')
+        expect(renderType(components[3].type)).toBe('"open" | "in_progress"')
+    })
+
+    it('refers to components declaring the same enum', () => {
+        const components = generateComponentTypes({ schemas } as any)
+
+        expect(renderType(components[1].type)).toContain('level?: Components.Schemas.Priority;')
+    })
+
+    it('documents the members of literal unions', () => {
+        expect(renderEnums()).toContain('export type Priority = /** Can wait */ | 1 /** Right now */ | 3')
+    })
+
+    it('declares TS enums', () => {
+        const output = renderEnums('enum')
+
+        expect(output).toContain('export enum Priority { /** Can wait */ Low = 1, /** Right now */ High = 3, }')
+        expect(output).toContain('export enum Status { Open = "open", InProgress = "in_progress", }')
+        expect(output).toContain(
+            'export const StatusSchema: z.ZodType<Components.Schemas.Status> = z.enum(Components.Schemas.Status);',
+        )
+    })
+
+    it('declares as const objects with a values array', () => {
+        const output = renderEnums('const')
+
+        expect(output).toContain('export const Status = { Open: "open", InProgress: "in_progress", } as const')
+        expect(output).toContain('export type Status = (typeof Status)[keyof typeof Status]')
+        expect(output).toContain('export const StatusValues = ["open", "in_progress"] as const')
+    })
+})
@@ -0,0 +1,238 @@
+import type { z } from 'zod'
+import { generateComponentTypes, generateIROperations, renderComponents } from '../functions'
+import { renderMocks } from '../mocks'
+import { generateTypes } from '../openapi-typings-gen'
+import { OpenApiIR } from '../types'
+import { loadModule, typeErrors } from './helpers'
+
+// only the CLI formats the output, and prettier's dynamic imports need the experimental VM modules of jest
+jest.mock('prettier', () => ({}))
+
+/** Stand-in for the parts of msw the handlers use, which isn't installed */
+const MSW_DECLARATIONS = `declare module 'msw' {
+    export class HttpResponse extends Response {
+        constructor(body?: BodyInit | null, init?: { status?: number })
+        static json(body?: unknown, init?: { status?: number }): Response
+        static text(body?: string, init?: { status?: number }): Response
+    }
+    export const http: Record<string, (path: string, resolver: () => Response) => { path: string }>
+}`
+
+const squash = (str: string) => str.replace(/\s+/g, ' ')
+
+const spec = {
+    paths: {
+        '/nodes/{id}': {
+            get: {
+                operationId: 'getNode',
+                responses: {
+                    '200': {
+                        description: 'ok',
+                        content: { 'application/json': { schema: { $ref: '#/components/schemas/Node' } } },
+                    },
+                    '404': {
+                        description: 'missing',
+                        content: { 'application/json': { schema: { type: 'object' }, example: { code: 404 } } },
+                    },
+                    default: { description: 'error' },
+                },
+            },
+        },
+    },
+    components: {
+        schemas: {
+            Node: {
+                type: 'object',
+                required: ['id', 'label', 'children'],
+                example: { label: 'root' },
+                properties: {
+                    id: { type: 'integer', minimum: 1 },
+                    label: { type: 'string' },
+                    email: { type: 'string', format: 'email' },
+                    code: { type: 'string', minLength: 6, maxLength: 6 },
+                    children: { type: 'array', items: { $ref: '#/components/schemas/Node' } },
+                    parent: { $ref: '#/components/schemas/Node' },
+                    kind: { $ref: '#/components/schemas/Kind' },
+                },
+            },
+            Kind: { type: 'string', enum: ['leaf', 'branch'] },
+        },
+    },
+} as unknown as OpenApiIR
+
+/** The Zod schemas of the components next to their factories */
+type MockModule = { Components: { Schemas: Record<string, z.ZodType> } } & Record<string, () => unknown>
+
+describe('renderMocks', () => {
+    const mocks = squash(renderMocks(generateComponentTypes(spec.components), generateIROperations(spec, false)))
+
+    it('renders a factory per component with examples laid over deterministic values', () => {
+        expect(mocks).toContain(
+            'export const createNode = (overrides: Partial<Components.Schemas.Node> = {}): Components.Schemas.Node => ({ "id": 1, "email": "user@example.com", "code": "codeco", "children": [], "kind": createKind(), "label":"root", ...overrides })',
+        )
+        expect(mocks).toContain(
+            'export const createKind = (override?: Components.Schemas.Kind): Components.Schemas.Kind => override ?? "leaf"',
+        )
+    })
+
+    it('renders MSW handlers for every documented status', () => {
+        expect(mocks).toContain(
+            '$200: (data: Paths.GetNode.Responses.$200 = createNode()) => http.get("*/nodes/:id", () => HttpResponse.json(data, { status: 200 })),',
+        )
+        expect(mocks).toContain('$404: (data: Paths.GetNode.Responses.$404 = {"code":404}) =>')
+        expect(mocks).toContain(
+            '$default: () => http.get("*/nodes/:id", () => new HttpResponse(null, { status: 500 })),',
+        )
+        expect(mocks).toContain('export const defaultMockHandlers = [ mockHandlers.getNode.$200(), ]')
+    })
+
+    it('refers to the members of TS enums', () => {
+        const enumMocks = squash(renderMocks(generateComponentTypes(spec.components, { enumStyle: 'enum' }), []))
+
+        expect(enumMocks).toContain('Components.Schemas.Kind => override ?? Components.Schemas.Kind.Leaf')
+    })
+
+    it('renders values matching the component schemas', () => {
+        const components = generateComponentTypes({
+            schemas: {
+                ...spec.components!.schemas,
+                Thing: {
+                    type: 'object',
+                    required: ['code', 'slug', 'size', 'ratio', 'tags', 'createdAt'],
+                    properties: {
+                        code: { type: 'string', pattern: '^[A-Z]{3}$', example: 'ABC' },
+                        slug: { type: 'string', pattern: '^[a-z]+$', minLength: 8 },
+                        size: { type: 'integer', minimum: 3, maximum: 10, multipleOf: 3 },
+                        ratio: { type: 'number', exclusiveMinimum: 0 },
+                        tags: { type: 'array', minItems: 1, items: { type: 'string', maxLength: 3 } },
+                        createdAt: { type: 'string', format: 'date-time' },
+                        kinds: { type: 'array', items: { $ref: '#/components/schemas/Kind' } },
+                        labels: {
+                            type: 'array',
+                            minItems: 3,
+                            uniqueItems: true,
+                            items: { type: 'string', maxLength: 4 },
+                        },
+                        offsets: {
+                            type: 'array',
+                            minItems: 2,
+                            uniqueItems: true,
+                            items: { type: 'integer', maximum: 0 },
+                        },
+                        flags: { type: 'array', minItems: 2, uniqueItems: true, items: { type: 'boolean' } },
+                        modes: {
+                            type: 'array',
+                            minItems: 2,
+                            uniqueItems: true,
+                            items: { type: 'string', enum: ['on', 'off'] },
+                        },
+                    },
+                },
+                Pet: {
+                    oneOf: [{ $ref: '#/components/schemas/Thing' }, { $ref: '#/components/schemas/Node' }],
+                },
+            },
+        } as unknown as OpenApiIR['components'])
+        const source = `import { z } from 'zod'\n${renderComponents(components, true)}\n${renderMocks(components, [])}`
+        const { Components, ...factories } = loadModule<MockModule>(source)
+
+        for (const { name } of components) {
+            const result = Components.Schemas[`${name}Schema`].safeParse(factories[`create${name}`]())
+            expect({ name, issues: result.error?.issues }).toEqual({ name, issues: undefined })
+        }
+    })
+
+    it('renders distinct array items', () => {
+        const components = generateComponentTypes({
+            schemas: {
+                Tags: { type: 'array', minItems: 2, uniqueItems: true, items: { type: 'string' } },
+                Sizes: { type: 'array', minItems: 2, items: { type: 'integer', minimum: 1, multipleOf: 5 } },
+            },
+        } as unknown as OpenApiIR['components'])
+        const mocks = squash(renderMocks(components, []))
+
+        expect(mocks).toContain('Components.Schemas.Tags => override ?? ["string", "string2"]')
+        expect(mocks).toContain('Components.Schemas.Sizes => override ?? [5, 10]')
+    })
+
+    it('requires overrides for values that cannot be generated', async () => {
+        const spec = {
+            paths: {
+                '/holders': {
+                    get: {
+                        operationId: 'getHolder',
+                        responses: {
+                            '200': {
+                                description: 'ok',
+                                content: { 'application/json': { schema: { $ref: '#/components/schemas/Holder' } } },
+                            },
+                        },
+                    },
+                },
+            },
+            components: {
+                schemas: {
+                    Code: {
+                        type: 'object',
+                        required: ['value'],
+                        properties: {
+                            value: { type: 'string', pattern: '^[A-Z]{3}$' },
+                            alias: { type: 'string', pattern: '^[A-Z]{3}$' },
+                        },
+                    },
+                    Holder: {
+                        type: 'object',
+                        required: ['code'],
+                        properties: { code: { $ref: '#/components/schemas/Code' } },
+                    },
+                },
+            },
+        } as unknown as OpenApiIR
+        const output = await generateTypes(spec, false, false, {}, { mocks: true })
+        const mocks = squash(output)
+
+        expect(mocks).toContain(
+            'createCode = (overrides: Partial<Components.Schemas.Code> & Pick<Components.Schemas.Code, "value">): Components.Schemas.Code => ({ ...overrides })',
+        )
+        expect(mocks).toContain('Pick<Components.Schemas.Holder, "code">')
+        expect(mocks).toContain('$200: (data: Paths.GetHolder.Responses.$200) =>')
+        expect(mocks).toContain('export const defaultMockHandlers = [ ]')
+        expect(typeErrors(`${output}\ncreateHolder({ code: createCode({ value: 'ABC' }) })`, MSW_DECLARATIONS)).toEqual(
+            [],
+        )
+        expect(typeErrors(`${output}\ncreateCode()`, MSW_DECLARATIONS)).toEqual([
+            'module.ts TS2554: Expected 1 arguments, but got 0.',
+        ])
+    })
+
+    it('refers to the members of inline TS enums in responses', async () => {
+        const spec = {
+            paths: {
+                '/pets/{petId}': {
+                    get: {
+                        operationId: 'getPet',
+                        responses: {
+                            '200': {
+                                description: 'ok',
+                                content: {
+                                    'application/json': {
+                                        schema: {
+                                            type: 'object',
+                                            required: ['status'],
+                                            properties: { status: { type: 'string', enum: ['available', 'sold'] } },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+            components: {},
+        } as unknown as OpenApiIR
+        const output = await generateTypes(spec, false, false, { enumStyle: 'enum' }, { mocks: true })
+
+        expect(squash(output)).toContain('= { "status": Paths.GetPet.Responses.$200.Status.Available }')
+        expect(typeErrors(output, MSW_DECLARATIONS)).toEqual([])
+    })
+})
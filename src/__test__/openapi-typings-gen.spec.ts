@@ -0,0 +1,65 @@
+import { resolveFormatTypes } from '../functions'
+import { generateTypes } from '../openapi-typings-gen'
+import { OpenApiIR } from '../types'
+
+// only the CLI formats the output, and prettier's dynamic imports need the experimental VM modules of jest
+jest.mock('prettier', () => ({}))
+
+const squash = (str: string) => str.replace(/\s+/g, ' ')
+
+const spec = {
+    openapi: '3.0.0',
+    paths: {
+        '/pets/{petId}': {
+            get: {
+                operationId: 'getPet',
+                parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'string' } }],
+                responses: {
+                    '200': { description: 'ok', content: { 'application/json': { schema: { type: 'object' } } } },
+                },
+            },
+        },
+    },
+    components: {},
+} as unknown as OpenApiIR
+
+describe('generateTypes', () => {
+    it('imports and re-exports the types of openapi-client-axios in axios mode', async () => {
+        const output = squash(await generateTypes(spec, false, false, {}, { axios: true }))
+
+        expect(output).toContain("import type { AxiosRequestConfig } from 'axios'")
+        expect(output).toContain(
+            "import type { ImplicitParamValue, OpenAPIClient, OperationResponse, Parameters, SingleParam, UnknownParamsObject, } from 'openapi-client-axios'",
+        )
+        expect(output).toContain(
+            'export type { AxiosRequestConfig, ImplicitParamValue, OperationResponse, Parameters, SingleParam, UnknownParamsObject }',
+        )
+        expect(output).toContain('export type Client = OpenAPIClient<OperationMethods, PathsDictionary>')
+        expect(output).not.toContain('export type OperationResponse<T = any> = Promise<T>')
+    })
+
+    it('stubs the types of openapi-client-axios otherwise', async () => {
+        const output = squash(await generateTypes(spec, false, false))
+
+        expect(output).toContain('export type OperationResponse<T = any> = Promise<T>')
+        expect(output).not.toContain('openapi-client-axios')
+        expect(output).not.toContain('export type Client =')
+    })
+
+    it('rejects the fetch client in axios mode', async () => {
+        await expect(generateTypes(spec, false, false, {}, { axios: true, client: true })).rejects.toThrow(
+            'cannot be combined with -c/--client',
+        )
+    })
+
+    it('rejects formats the fetch client cannot revive without zod', async () => {
+        const formatTypes = resolveFormatTypes('date-time=Date')
+
+        await expect(generateTypes(spec, false, false, { formatTypes }, { client: true })).rejects.toThrow(
+            'with the Zod validators of -z/--zod only',
+        )
+        await expect(generateTypes(spec, false, true, { formatTypes }, { client: true })).resolves.toContain(
+            'createClient',
+        )
+    })
+})
@@ -0,0 +1,112 @@
+import { generateIROperations } from '../functions'
+import { generateTypes } from '../openapi-typings-gen'
+import { renderQueryHooks } from '../react-query'
+import { OpenApiIR } from '../types'
+import { typeErrors } from './helpers'
+
+// only the CLI formats the output, and prettier's dynamic imports need the experimental VM modules of jest
+jest.mock('prettier', () => ({}))
+
+/** Stand-in for @tanstack/react-query, which isn't a dependency */
+const REACT_QUERY_DECLARATIONS = `declare module '@tanstack/react-query' {
+    export const useQuery: (options: unknown) => unknown
+    export const useInfiniteQuery: (options: unknown) => unknown
+    export const useMutation: (options: unknown) => unknown
+    export type InfiniteData<A = unknown, B = unknown> = { pages: A[]; pageParams: B[] }
+    export type UseQueryOptions<A = unknown, B = unknown, C = unknown, D = unknown> = { enabled?: boolean }
+    export type UseInfiniteQueryOptions<A = unknown, B = unknown, C = unknown, D = unknown, E = unknown> = {
+        enabled?: boolean
+    }
+    export type UseMutationOptions<A = unknown, B = unknown, C = unknown, D = unknown> = { retry?: number }
+}`
+
+const squash = (str: string) => str.replace(/\s+/g, ' ')
+
+const operations = generateIROperations(
+    {
+        paths: {
+            '/pets': {
+                get: {
+                    operationId: 'listPets',
+                    'x-pagination': { pageParam: 'cursor' },
+                    parameters: [{ name: 'cursor', in: 'query', schema: { type: 'string' } }],
+                    responses: { '200': { description: 'ok' } },
+                },
+                post: {
+                    operationId: 'createPet',
+                    requestBody: { required: true, content: { 'application/json': { schema: { type: 'object' } } } },
+                    responses: { '201': { description: 'created' } },
+                },
+            },
+            '/pets/{petId}/photos/{name}.png': {
+                get: {
+                    operationId: 'getPhoto',
+                    'x-pagination': { pageParam: 'page' },
+                    parameters: [
+                        { name: 'petId', in: 'path', required: true, schema: { type: 'integer' } },
+                        { name: 'name', in: 'path', required: true, schema: { type: 'string' } },
+                    ],
+                    responses: { '200': { description: 'ok' } },
+                },
+            },
+        },
+        components: {},
+    } as unknown as OpenApiIR,
+    false,
+)
+
+describe('renderQueryHooks', () => {
+    const hooks = squash(renderQueryHooks(operations))
+
+    it('derives query keys from the path and parameters', () => {
+        expect(hooks).toContain(
+            'listPets: (parameters?: Paths.ListPets.QueryParameters) => ["pets", parameters ?? {}] as const,',
+        )
+        expect(hooks).toContain(
+            'getPhoto: (parameters: Paths.GetPhoto.PathParameters) => ["pets", parameters.petId, "photos", `${parameters.name}.png`] as const,',
+        )
+    })
+
+    it('renders query hooks for GET and mutation hooks for other methods', () => {
+        expect(hooks).toContain(
+            'useQuery({ queryKey: queryKeys.listPets(parameters), queryFn: () => client.listPets(parameters), ...options })',
+        )
+        expect(hooks).toContain(
+            'useMutation({ mutationFn: ({ data }: { data: Paths.CreatePet.RequestBody }) => client.createPet(undefined, data), ...options })',
+        )
+    })
+
+    it('renders infinite queries for paginated operations only', () => {
+        expect(hooks).toContain(
+            'listPetsInfinite: (parameters?: Omit<Paths.ListPets.QueryParameters, "cursor">) => ["pets", "infinite", parameters ?? {}] as const,',
+        )
+        expect(hooks).toContain(
+            'useListPetsInfinite: ( parameters: Omit<Paths.ListPets.QueryParameters, "cursor"> | undefined, options: Omit<',
+        )
+        expect(hooks).toContain('queryFn: ({ pageParam }) => client.listPets({ ...parameters, "cursor": pageParam })')
+        // `page` is not a query parameter of the operation
+        expect(hooks).not.toContain('useGetPhotoInfinite')
+    })
+
+    it('type-checks with path parameters declared on the path item', async () => {
+        const spec = {
+            paths: {
+                '/pets/{petId}': {
+                    parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+                    get: { operationId: 'getPet', responses: { '200': { description: 'ok' } } },
+                },
+                '/owners/{ownerId}': {
+                    get: { operationId: 'getOwner', responses: { '200': { description: 'ok' } } },
+                },
+            },
+            components: {},
+        } as unknown as OpenApiIR
+        const output = await generateTypes(spec, false, false, {}, { reactQuery: true })
+
+        expect(squash(output)).toContain(
+            'getPet: (parameters: Paths.GetPet.PathParameters) => ["pets", parameters.petId] as const,',
+        )
+        expect(squash(output)).toContain('getOwner: () => ["owners", "{ownerId}"] as const,')
+        expect(typeErrors(output, REACT_QUERY_DECLARATIONS)).toEqual([])
+    })
+})
@@ -0,0 +1,436 @@
+import ts from 'typescript'
+import {
+    generateComponentTypes,
+    generateIROperations,
+    generateSharedComponents,
+    renderComponents,
+    renderOperations,
+    renderPaths,
+    renderPathsDictionary,
+} from '../functions'
+import { OpenApiIR } from '../types'
+
+const spec = (paths: Record<string, any>) => ({ paths, components: {} }) as unknown as OpenApiIR
+
+const squash = (str: string) => str.replace(/\s+/g, ' ')
+
+describe('header and cookie parameters', () => {
+    const operations = generateIROperations(
+        spec({
+            '/orders': {
+                post: {
+                    operationId: 'createOrder',
+                    parameters: [
+                        { name: 'X-Tenant-Id', in: 'header', required: true, schema: { type: 'string' } },
+                        { name: 'session', in: 'cookie', schema: { type: 'string' } },
+                        { name: 'dryRun', in: 'query', schema: { type: 'boolean' } },
+                    ],
+                    responses: { '201': { description: 'created' } },
+                },
+                get: {
+                    operationId: 'listOrders',
+                    parameters: [{ name: 'X-Trace', in: 'header', schema: { type: 'string' } }],
+                    responses: { '200': { description: 'ok' } },
+                },
+            },
+        }),
+        false,
+    )
+
+    it('renders HeaderParameters and CookieParameters interfaces', () => {
+        const paths = squash(renderPaths(operations))
+
+        expect(paths).toContain('export type X_Tenant_Id = string;')
+        expect(paths).toContain('export interface HeaderParameters { "X-Tenant-Id": Parameters.X_Tenant_Id; }')
+        expect(paths).toContain('export interface CookieParameters { session?: Parameters.Session; }')
+    })
+
+    it('merges the path item parameters into the operations', () => {
+        const [getPet, deletePet] = generateIROperations(
+            spec({
+                '/pets/{petId}': {
+                    parameters: [
+                        { name: 'petId', in: 'path', required: true, schema: { type: 'integer' } },
+                        { name: 'X-Trace', in: 'header', schema: { type: 'string' } },
+                    ],
+                    get: { operationId: 'getPet', responses: {} },
+                    delete: {
+                        operationId: 'deletePet',
+                        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'string' } }],
+                        responses: {},
+                    },
+                },
+            }),
+            false,
+        )
+        const paths = squash(renderPaths([getPet, deletePet]))
+
+        expect(getPet.parameters.header.map((p) => p.param.name)).toEqual(['X-Trace'])
+        expect(paths).toContain(
+            'export namespace GetPet { export type RequestBody = undefined; export namespace Parameters { export type PetId = number;',
+        )
+        expect(paths).toContain(
+            'export namespace DeletePet { export type RequestBody = undefined; export namespace Parameters { export type PetId = string;',
+        )
+    })
+
+    it('requires the parameters argument when a header or cookie is mandatory', () => {
+        const methods = squash(renderOperations(operations))
+        const dictionary = squash(renderPathsDictionary(operations))
+
+        expect(methods).toContain(
+            'createOrder: (parameters: Parameters<Paths.CreateOrder.QueryParameters & Paths.CreateOrder.HeaderParameters & Paths.CreateOrder.CookieParameters>',
+        )
+        expect(methods).toContain('listOrders: (parameters?: Parameters<Paths.ListOrders.HeaderParameters>')
+        expect(dictionary).toContain('post: (parameters: Parameters<')
+    })
+})
+
+describe('response typing by status code', () => {
+    const json = (schema: any) => ({ content: { 'application/json': { schema } } })
+    const operations = generateIROperations(
+        spec({
+            '/pets': {
+                post: {
+                    operationId: 'createPet',
+                    responses: {
+                        '400': { description: 'bad', ...json({ $ref: '#/components/schemas/Error' }) },
+                        '200': { description: 'ok', ...json({ $ref: '#/components/schemas/Pet' }) },
+                        '201': { description: 'created', ...json({ $ref: '#/components/schemas/Pet' }) },
+                        '4XX': { description: 'client error' },
+                    },
+                },
+                get: {
+                    operationId: 'listPets',
+                    responses: { default: { description: 'any', ...json({ type: 'string' }) } },
+                },
+            },
+        }),
+        false,
+    )
+
+    it('promises the union of all success responses', () => {
+        const methods = squash(renderOperations(operations))
+
+        expect(methods).toContain('OperationResponse<Paths.CreatePet.Responses.$200 | Paths.CreatePet.Responses.$201>')
+        expect(methods).toContain('OperationResponse<Paths.ListPets.Responses.$default>')
+    })
+
+    it('renders a status discriminated result type', () => {
+        const paths = squash(renderPaths(operations))
+
+        expect(paths).toContain(
+            'export type Result = { status: 200; data: Responses.$200 } | { status: 201; data: Responses.$201 } | { status: 400; data: Responses.$400 } | { status: 401 | 402 |',
+        )
+        expect(paths).toContain('| 451; data: Responses.$4XX };')
+        expect(paths).toContain('export type Result = { status: number; data: Responses.$default };')
+    })
+
+    it('narrows the result by status next to a default response', () => {
+        const [op] = generateIROperations(
+            spec({
+                '/pets': {
+                    post: {
+                        operationId: 'createPet',
+                        responses: {
+                            '201': {
+                                description: 'created',
+                                ...json({ type: 'object', required: ['id'], properties: { id: { type: 'integer' } } }),
+                            },
+                            '4XX': { description: 'client error', ...json({ type: 'string' }) },
+                            default: { description: 'error', ...json({ type: 'boolean' }) },
+                        },
+                    },
+                },
+            }),
+            false,
+        )
+        const paths = renderPaths([op])
+        const source = `${paths}
+            declare const result: Paths.CreatePet.Result
+            if (result.status === 201) result.data.id
+            if (result.status === 404) result.data.toUpperCase()
+            if (result.status === 500) result.data satisfies boolean`
+        const options = { strict: true, noEmit: true, types: [] }
+        const host = ts.createCompilerHost(options)
+        const getSourceFile = host.getSourceFile
+        host.getSourceFile = (name, ...rest) =>
+            name === 'result.ts'
+                ? ts.createSourceFile(name, source, ts.ScriptTarget.ES2020)
+                : getSourceFile(name, ...rest)
+        const diagnostics = ts.getPreEmitDiagnostics(ts.createProgram(['result.ts'], options, host))
+
+        expect(squash(paths)).toContain(
+            '{ status: 100 | 101 | 102 | 103 | 200 | 202 | 203 | 204 | 205 | 206 | 207 | 208 | 226 | 300 | 301 | 302 | 303 | 304 | 305 | 307 | 308 | 500 | 501 | 502 | 503 | 504 | 505 | 506 | 507 | 508 | 510 | 511; data: Responses.$default }',
+        )
+        expect(diagnostics.map((d) => ts.flattenDiagnosticMessageText(d.messageText, '\n'))).toEqual([])
+    })
+})
+
+describe('request bodies', () => {
+    const operations = generateIROperations(
+        spec({
+            '/photos': {
+                post: {
+                    operationId: 'uploadPhoto',
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': { schema: { $ref: '#/components/schemas/Photo' } },
+                            'multipart/form-data': {
+                                schema: {
+                                    type: 'object',
+                                    required: ['file'],
+                                    properties: {
+                                        file: { type: 'string', format: 'binary' },
+                                        thumbnail: { type: 'string' },
+                                        meta: { type: 'object', properties: { tag: { type: 'string' } } },
+                                    },
+                                },
+                                encoding: {
+                                    thumbnail: { contentType: 'image/png' },
+                                    meta: { contentType: 'application/json' },
+                                },
+                            },
+                        },
+                    },
+                    responses: { '201': { description: 'created' } },
+                },
+                put: {
+                    operationId: 'tagPhoto',
+                    requestBody: {
+                        content: {
+                            'application/x-www-form-urlencoded': {
+                                schema: { type: 'object', properties: { tag: { type: 'string' } } },
+                            },
+                        },
+                    },
+                    responses: { '204': { description: 'ok' } },
+                },
+            },
+        }),
+        false,
+    )
+
+    it('renders a type per media type', () => {
+        const paths = squash(renderPaths(operations))
+
+        expect(paths).toContain('export type RequestBody = RequestBody.Json | RequestBody.Multipart;')
+        expect(paths).toContain('export type Json = Components.Schemas.Photo;')
+        expect(paths).toContain('file: Blob;')
+        expect(paths).toContain('thumbnail?: Blob;')
+        expect(paths).toContain('meta?: Paths.UploadPhoto.RequestBody.Multipart.Meta;')
+        expect(paths).toContain('export namespace Multipart { export interface Meta { tag?: string; } }')
+        expect(paths).toContain('} | FormData;')
+        expect(paths).toContain('export type FormUrlencoded = { tag?: string; } | URLSearchParams;')
+    })
+
+    it('makes data mandatory for required bodies', () => {
+        const methods = squash(renderOperations(operations))
+
+        expect(methods).toContain('uploadPhoto: (parameters: null | undefined, data: Paths.UploadPhoto.RequestBody,')
+        expect(methods).toContain('tagPhoto: (parameters?: null | undefined, data?: Paths.TagPhoto.RequestBody,')
+    })
+})
+
+describe('shared components', () => {
+    const sharedSpec = {
+        paths: {
+            '/pets': {
+                get: {
+                    operationId: 'listPets',
+                    parameters: [{ $ref: '#/components/parameters/PageSize' }],
+                    responses: {
+                        '200': {
+                            description: 'ok',
+                            headers: {
+                                Link: { required: true, schema: { type: 'string' } },
+                                'X-Rate-Limit': { $ref: '#/components/headers/X-Rate-Limit' },
+                                'Content-Type': { schema: { type: 'string' } },
+                            },
+                        },
+                        '404': { $ref: '#/components/responses/ErrorResponse' },
+                    },
+                },
+                post: {
+                    operationId: 'createPet',
+                    requestBody: { $ref: '#/components/requestBodies/PetBody' },
+                    responses: { '201': { description: 'created' } },
+                },
+            },
+        },
+        components: {
+            parameters: {
+                PageSize: { name: 'limit', in: 'query', description: 'Items per page', schema: { type: 'integer' } },
+            },
+            responses: {
+                ErrorResponse: {
+                    description: 'error',
+                    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+                },
+            },
+            requestBodies: {
+                PetBody: {
+                    required: true,
+                    content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+                },
+            },
+            headers: { 'X-Rate-Limit': { description: 'Requests left', schema: { type: 'integer' } } },
+        },
+    } as unknown as OpenApiIR
+    const operations = generateIROperations(sharedSpec, false)
+
+    it('renders a namespace per component section', () => {
+        const components = squash(renderComponents([], false, generateSharedComponents(sharedSpec.components)))
+
+        expect(components).toContain(
+            'export namespace Parameters { /** Items per page */ export type PageSize = number; }',
+        )
+        expect(components).toContain(
+            'export namespace Responses { /** application/json */ export type ErrorResponse = Components.Schemas.Error; }',
+        )
+        expect(components).toContain('export type PetBody = PetBody.Json;')
+        expect(components).toContain(
+            'export namespace Headers { /** Requests left */ export type X_Rate_Limit = number; }',
+        )
+    })
+
+    it('resolves the refs of operations and refers to the shared types by name', () => {
+        const paths = squash(renderPaths(operations))
+
+        expect(operations[0].parameters.query[0].param.name).toBe('limit')
+        expect(operations[0].responses['404'].type).toEqual({
+            kind: 'union',
+            types: [{ kind: 'identifier', name: 'Components.Schemas.Error' }],
+        })
+        expect(operations[1].requestBody?.required).toBe(true)
+        expect(paths).toContain('export type Limit = Components.Parameters.PageSize;')
+        expect(paths).toContain('export interface QueryParameters { limit?: Parameters.Limit; }')
+        expect(paths).toContain('export type $404 = Components.Responses.ErrorResponse;')
+        expect(paths).toContain(
+            'export type RequestBody = Components.RequestBodies.PetBody; export namespace RequestBody { export type Json = Components.RequestBodies.PetBody.Json; }',
+        )
+    })
+
+    it('renders a response headers interface per status', () => {
+        const paths = squash(renderPaths(operations))
+
+        expect(paths).toContain(
+            'export namespace Headers { export interface $200 { Link: string; /** Requests left */ "X-Rate-Limit"?: Components.Headers.X_Rate_Limit; } export interface $404 { } }',
+        )
+        expect(paths).toContain(
+            'export type ResultWithHeaders = { status: 200; data: Responses.$200; headers: Responses.Headers.$200 } | { status: 404; data: Responses.$404; headers: Responses.Headers.$404 };',
+        )
+    })
+})
+
+describe('readOnly and writeOnly properties', () => {
+    const accessSpec = {
+        paths: {
+            '/users': {
+                post: {
+                    operationId: 'createUser',
+                    requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Team' } } } },
+                    responses: {
+                        '201': {
+                            description: 'created',
+                            content: { 'application/json': { schema: { $ref: '#/components/schemas/Team' } } },
+                        },
+                    },
+                },
+            },
+        },
+        components: {
+            schemas: {
+                User: {
+                    type: 'object',
+                    required: ['id', 'password'],
+                    properties: {
+                        id: { type: 'integer', readOnly: true },
+                        password: { type: 'string', writeOnly: true },
+                    },
+                },
+                Team: { type: 'object', properties: { lead: { $ref: '#/components/schemas/User' } } },
+                Tag: { type: 'string' },
+            },
+        },
+    } as unknown as OpenApiIR
+
+    it('splits components into response and request variants', () => {
+        const components = squash(renderComponents(generateComponentTypes(accessSpec.components), false))
+
+        expect(components).toContain('export interface User { id: number; }')
+        expect(components).toContain('export interface UserInput { password: string; }')
+        expect(components).toContain('export interface Team { lead?: Components.Schemas.User; }')
+        expect(components).toContain('export interface TeamInput { lead?: Components.Schemas.UserInput; }')
+        expect(components).not.toContain('TagInput')
+    })
+
+    it('refers to the request variants in request bodies only', () => {
+        const paths = squash(renderPaths(generateIROperations(accessSpec, false)))
+
+        expect(paths).toContain('export type Json = Components.Schemas.TeamInput;')
+        expect(paths).toContain('export type $201 = Components.Schemas.Team;')
+    })
+})
+
+describe('inline types', () => {
+    const operations = generateIROperations(
+        spec({
+            '/orders': {
+                get: {
+                    operationId: 'getOrder',
+                    responses: {
+                        '200': {
+                            description: 'ok',
+                            content: {
+                                'application/json': {
+                                    schema: {
+                                        type: 'array',
+                                        items: {
+                                            type: 'object',
+                                            properties: {
+                                                status: { type: 'string', enum: ['open', 'closed'] },
+                                                shipping_address: {
+                                                    type: 'object',
+                                                    nullable: true,
+                                                    properties: { geo: { type: 'object', properties: {} } },
+                                                },
+                                                lines: { type: 'array', items: { type: 'object', properties: {} } },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        }),
+        false,
+    )
+
+    it('hoists inline objects and enums into types named after their place', () => {
+        const paths = squash(renderPaths(operations))
+
+        expect(paths).toContain('export type $200 = Paths.GetOrder.Responses.$200.Items[];')
+        expect(paths).toContain('status?: Paths.GetOrder.Responses.$200.Items.Status;')
+        expect(paths).toContain('shipping_address?: Paths.GetOrder.Responses.$200.Items.ShippingAddress | null;')
+        expect(paths).toContain('lines?: Paths.GetOrder.Responses.$200.Items.Lines[];')
+        expect(paths).toContain('export type Status = "open" | "closed" export interface ShippingAddress')
+        expect(paths).toContain(
+            'export namespace ShippingAddress { export interface Geo { } } export interface Lines { } } }',
+        )
+    })
+
+    it('declares the Zod schemas next to the named types', () => {
+        const paths = squash(renderPaths(operations, true))
+
+        expect(paths).toContain(
+            'export const GeoSchema: z.ZodType<Paths.GetOrder.Responses.$200.Items.ShippingAddress.Geo> = z.object({ });',
+        )
+        expect(paths).toContain(
+            'export const ItemsSchema: z.ZodType<Paths.GetOrder.Responses.$200.Items> = z.object({ "status": Paths.GetOrder.Responses.$200.Items.StatusSchema.optional(),',
+        )
+    })
+})
@@ -1,4 +1,14 @@
-import { renderZod, TypeNode } from '../functions'
+import {
+    generateComponentTypes,
+    generateIROperations,
+    renderComponents,
+    renderZod,
+    renderZodComponents,
+    renderZodOperationMappings,
+    TypeNode,
+} from '../functions'
+import { OpenApiIR } from '../types'
+import { loadModule } from './helpers'
 
 it('renders single-member unions without z.union wrapper', () => {
     const node: TypeNode = {
@@ -199,3 +209,196 @@ describe('renderZod optional/nullable handling (pre-normalization)', () => {
         expect(result).not.toMatch(/optional|nullable/)
     })
 })
+
+describe('renderZodOperationMappings', () => {
+    const json = (schema: any) => ({ content: { 'application/json': { schema } } })
+    const operations = generateIROperations(
+        {
+            paths: {
+                '/orders/{id}': {
+                    put: {
+                        operationId: 'updateOrder',
+                        parameters: [
+                            { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+                            { name: 'dryRun', in: 'query', schema: { type: 'boolean' } },
+                            { name: 'ids', in: 'query', schema: { type: 'array', items: { type: 'integer' } } },
+                            { name: 'X-Tenant-Id', in: 'header', required: true, schema: { type: 'string' } },
+                        ],
+                        requestBody: json({ $ref: '#/components/schemas/Order' }),
+                        responses: {
+                            '200': {
+                                description: 'ok',
+                                headers: { 'X-Rate-Limit': { required: true, schema: { type: 'integer' } } },
+                                ...json({ type: 'object', properties: { id: { type: 'integer' } } }),
+                            },
+                            '404': { description: 'not found', ...json({ $ref: '#/components/schemas/Error' }) },
+                        },
+                    },
+                },
+            },
+        } as unknown as OpenApiIR,
+        false,
+    )
+    const output = renderZodOperationMappings(operations)
+
+    it('renders response validators for inline schemas and every status', () => {
+        expect(output).toContain('updateOrder: z.object({ "id": z.number().int().optional() }),')
+        expect(output).toContain('"404": Components.Schemas.ErrorSchema,')
+    })
+
+    it('refers to the schemas of hoisted inline types', () => {
+        const [op] = generateIROperations(
+            {
+                paths: {
+                    '/orders': {
+                        get: {
+                            operationId: 'listOrders',
+                            responses: {
+                                '200': json({ type: 'array', items: { type: 'object', properties: {} } }),
+                            },
+                        },
+                    },
+                },
+            } as unknown as OpenApiIR,
+            false,
+        )
+
+        expect(renderZodOperationMappings([op])).toContain(
+            'listOrders: z.array(Paths.ListOrders.Responses.$200.ItemsSchema),',
+        )
+    })
+
+    it('renders request validators for parameters and body', () => {
+        expect(output).toContain('path: z.object({ "id": z.coerce.number().int() }),')
+        expect(output).toContain(
+            'query: z.object({ "dryRun": z.stringbool().optional(), "ids": z.preprocess((v) => (v === undefined || Array.isArray(v) ? v : [v]), z.array(z.coerce.number().int())).optional() }),',
+        )
+        expect(output).toContain('header: z.object({ "x-tenant-id": z.string() }),')
+        expect(output).toContain('body: Components.Schemas.OrderSchema.optional(),')
+    })
+
+    it('coerces parameters referring to components and splits header and cookie arrays', () => {
+        const spec = {
+            paths: {
+                '/pets/{petId}': {
+                    get: {
+                        operationId: 'getPet',
+                        parameters: [
+                            {
+                                name: 'petId',
+                                in: 'path',
+                                required: true,
+                                schema: { $ref: '#/components/schemas/PetId' },
+                            },
+                            { name: 'level', in: 'query', schema: { $ref: '#/components/schemas/Level' } },
+                            { name: 'verbose', in: 'query', schema: { $ref: '#/components/schemas/Flag' } },
+                            { name: 'X-Tags', in: 'header', schema: { type: 'array', items: { type: 'string' } } },
+                            { name: 'ids', in: 'cookie', schema: { type: 'array', items: { type: 'integer' } } },
+                        ],
+                        responses: {},
+                    },
+                },
+            },
+            components: {
+                schemas: {
+                    PetId: { type: 'integer', minimum: 1 },
+                    Level: { type: 'integer', enum: [1, 2] },
+                    Flag: { type: 'boolean' },
+                },
+            },
+        } as unknown as OpenApiIR
+        const components = generateComponentTypes(spec.components)
+        const source = `import { z } from 'zod'
+            ${renderComponents(components, true)}
+            ${renderZodOperationMappings(generateIROperations(spec, false), components)}`
+        type Validator = { parse: (value: unknown) => unknown; safeParse: (value: unknown) => { success: boolean } }
+        const { apiRequestValidators } = loadModule<{
+            apiRequestValidators: { getPet: Record<'path' | 'query' | 'header' | 'cookie', Validator> }
+        }>(source)
+        const { path, query, header, cookie } = apiRequestValidators.getPet
+
+        expect(path.parse({ petId: '42' })).toEqual({ petId: 42 })
+        expect(path.safeParse({ petId: '0' }).success).toBe(false)
+        expect(query.parse({ level: '2', verbose: 'true' })).toEqual({ level: 2, verbose: true })
+        expect(query.safeParse({ level: '3' }).success).toBe(false)
+        expect(header.parse({ 'x-tags': 'a, b' })).toEqual({ 'x-tags': ['a', 'b'] })
+        expect(cookie.parse({ ids: '1,2' })).toEqual({ ids: [1, 2] })
+    })
+
+    it('renders a body validator per media type', () => {
+        const object = (name: string) => ({
+            type: 'object',
+            required: [name],
+            properties: { [name]: { type: 'string' } },
+        })
+        const [op] = generateIROperations(
+            {
+                paths: {
+                    '/files': {
+                        post: {
+                            operationId: 'uploadFile',
+                            requestBody: {
+                                required: true,
+                                content: {
+                                    'application/json': { schema: object('url') },
+                                    'multipart/form-data': { schema: object('file') },
+                                },
+                            },
+                            responses: {},
+                        },
+                    },
+                },
+            } as unknown as OpenApiIR,
+            false,
+        )
+        const rendered = renderZodOperationMappings([op])
+
+        expect(rendered).toContain(
+            'body: z.union([z.object({ "url": z.string() }), z.union([z.object({ "file": z.string() }), z.instanceof(FormData)])]),',
+        )
+        expect(rendered).toContain(
+            'bodyByContentType: {\n"application/json": z.object({ "url": z.string() }),\n"multipart/form-data": z.union([',
+        )
+    })
+
+    it('renders response header validators with lower cased names', () => {
+        expect(output).toContain(
+            'apiResponseHeaderValidators = {\nupdateOrder: {\n"200": z.object({ "x-rate-limit": z.coerce.number().int() }),',
+        )
+    })
+})
+
+describe('renderZodComponents', () => {
+    const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` })
+    const components = generateComponentTypes({
+        schemas: {
+            Order: { type: 'object', properties: { customer: ref('Customer') } },
+            Customer: { type: 'object', properties: { address: ref('Address') } },
+            Address: { type: 'object', properties: { street: { type: 'string' } } },
+            Category: { type: 'object', properties: { parent: ref('Category') } },
+            Employee: { type: 'object', properties: { team: ref('Team') } },
+            Team: { type: 'object', properties: { lead: ref('Employee') } },
+        },
+    } as unknown as OpenApiIR['components'])
+    const output = renderZodComponents(components)
+    const schemaNames = [...output.matchAll(/export const (\w+)Schema/g)].map((m) => m[1])
+
+    it('renders referenced schemas first without z.lazy', () => {
+        expect(schemaNames.indexOf('Address')).toBeLessThan(schemaNames.indexOf('Customer'))
+        expect(schemaNames.indexOf('Customer')).toBeLessThan(schemaNames.indexOf('Order'))
+        expect(output).toContain('z.object({ "customer": Components.Schemas.CustomerSchema.optional() })')
+        expect(output).toContain('z.object({ "address": Components.Schemas.AddressSchema.optional() })')
+    })
+
+    it('renders references within cycles with z.lazy', () => {
+        expect(output).toContain('z.object({ "parent": z.lazy(() => Components.Schemas.CategorySchema).optional() })')
+        expect(output).toContain('z.object({ "lead": z.lazy(() => Components.Schemas.EmployeeSchema).optional() })')
+        expect(output).toContain('z.object({ "team": Components.Schemas.TeamSchema.optional() })')
+    })
+
+    it('annotates the schemas with the component types', () => {
+        for (const name of ['Order', 'Customer', 'Address', 'Category', 'Employee', 'Team']) {
+            expect(output).toContain(`export const ${name}Schema: z.ZodType<Components.Schemas.${name}> =`)
+        }
+    })
+})
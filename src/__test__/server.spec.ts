@@ -0,0 +1,214 @@
+import express from 'express'
+import http from 'http'
+import { AddressInfo } from 'net'
+import { generateTypes } from '../openapi-typings-gen'
+import { OpenApiIR } from '../types'
+import { loadModule, typeErrors } from './helpers'
+
+// only the CLI formats the output, and prettier's dynamic imports need the experimental VM modules of jest
+jest.mock('prettier', () => ({}))
+
+const spec = {
+    paths: {
+        '/pets/{petId}': {
+            get: {
+                operationId: 'getPet',
+                parameters: [
+                    { name: 'petId', in: 'path', required: true, schema: { type: 'integer' } },
+                    { name: 'X-Tenant', in: 'header', required: true, schema: { type: 'string' } },
+                    { name: 'tags', in: 'query', schema: { type: 'array', items: { type: 'string' } } },
+                ],
+                responses: {
+                    '200': {
+                        description: 'ok',
+                        content: {
+                            'application/json': {
+                                schema: { type: 'object', required: ['id'], properties: { id: { type: 'number' } } },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/pets': {
+            post: {
+                operationId: 'createPet',
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } },
+                        },
+                        'application/x-www-form-urlencoded': {
+                            schema: {
+                                type: 'object',
+                                required: ['nickname'],
+                                properties: { nickname: { type: 'string' } },
+                            },
+                        },
+                    },
+                },
+                responses: { '201': { description: 'created' } },
+            },
+        },
+    },
+    components: {},
+} as unknown as OpenApiIR
+
+/** Handlers typed with the generated `Handlers`, recording the requests they receive */
+const HANDLERS = `
+export const received: HandlerRequest<unknown, unknown, unknown, unknown, unknown>[] = []
+
+export const handlers: Handlers = {
+    getPet: (request) => {
+        received.push(request)
+        return { status: 200, data: { id: Number(request.params.petId) } }
+    },
+    createPet: async () => ({ status: 201, data: undefined }),
+}
+`
+
+interface ReceivedRequest {
+    params: Record<string, unknown>
+    query: Record<string, unknown>
+    headers: Record<string, unknown>
+}
+
+interface FastifyRoute {
+    method: string
+    url: string
+    handler: (
+        request: { params: unknown; query: unknown; headers: Record<string, unknown>; body?: unknown },
+        reply: { code(status: number): unknown; send(payload?: unknown): unknown },
+    ) => Promise<unknown>
+}
+
+interface ServerModule {
+    received: ReceivedRequest[]
+    handlers: object
+    registerExpressHandlers: (app: express.Express, handlers: object) => void
+    registerFastifyHandlers: (app: { route: (options: FastifyRoute) => void }, handlers: object) => void
+}
+
+const renderServerModule = async (zod: boolean) =>
+    `${await generateTypes(spec, false, zod, {}, { server: true })}\n${HANDLERS}`
+
+/** Serves the generated handlers with Express, parsing JSON and form bodies */
+const serve = async (zod: boolean) => {
+    const server = loadModule<ServerModule>(await renderServerModule(zod))
+    const app = express().use(express.json(), express.urlencoded())
+    server.registerExpressHandlers(app, server.handlers)
+    const listener = await new Promise<http.Server>((resolve) => {
+        const started: http.Server = app.listen(0, '127.0.0.1', () => resolve(started))
+    })
+    return { ...server, listener, url: `http://127.0.0.1:${(listener.address() as AddressInfo).port}` }
+}
+
+describe('server handlers', () => {
+    let validated: Awaited<ReturnType<typeof serve>>
+    let unvalidated: Awaited<ReturnType<typeof serve>>
+
+    beforeAll(async () => {
+        validated = await serve(true)
+        unvalidated = await serve(false)
+    })
+
+    afterAll(async () => {
+        await new Promise((resolve) => validated.listener.close(resolve))
+        await new Promise((resolve) => unvalidated.listener.close(resolve))
+    })
+
+    beforeEach(() => {
+        validated.received.length = 0
+        unvalidated.received.length = 0
+    })
+
+    it('types the handlers with the generated Handlers', async () => {
+        const unvalidatedSource = await renderServerModule(false)
+        // the only error is the raw path parameter typed as a number
+        const petId = `export const getPet: Handlers['getPet'] = (request) => {
+            const id: number = request.params.petId
+            return { status: 200, data: { id } }
+        }`
+
+        expect(typeErrors(await renderServerModule(true))).toEqual([])
+        expect(typeErrors(`${unvalidatedSource}\n${petId}`)).toEqual([
+            "module.ts TS2322: Type 'string' is not assignable to type 'number'.",
+        ])
+    })
+
+    it('mounts handlers on converted paths and passes the validated request', async () => {
+        const response = await fetch(`${validated.url}/pets/42`, { headers: { 'X-Tenant': 'acme' } })
+
+        expect(response.status).toBe(200)
+        expect(await response.json()).toEqual({ id: 42 })
+        expect(validated.received[0].params).toEqual({ petId: 42 })
+        expect(validated.received[0].headers['x-tenant']).toBe('acme')
+        expect(validated.received[0].headers.host).toBeDefined()
+    })
+
+    it('accepts a single value for array query parameters', async () => {
+        const response = await fetch(`${validated.url}/pets/42?tags=a`, { headers: { 'X-Tenant': 'acme' } })
+
+        expect(response.status).toBe(200)
+        expect(validated.received[0].query).toEqual({ tags: ['a'] })
+    })
+
+    it('accepts repeated keys for array query parameters', async () => {
+        const response = await fetch(`${validated.url}/pets/42?tags=a&tags=b`, { headers: { 'X-Tenant': 'acme' } })
+
+        expect(response.status).toBe(200)
+        expect(validated.received[0].query).toEqual({ tags: ['a', 'b'] })
+    })
+
+    it('replies 400 with the issues of invalid requests', async () => {
+        const response = await fetch(`${validated.url}/pets/abc`)
+        const body: { issues: { path: string[] }[] } = await response.json()
+
+        expect(response.status).toBe(400)
+        expect(body.issues.map((issue) => issue.path.join('.'))).toEqual(['params.petId', 'headers.x-tenant'])
+        expect(validated.received).toHaveLength(0)
+    })
+
+    it('validates bodies and sends the typed reply', async () => {
+        const post = (body: unknown) =>
+            fetch(`${validated.url}/pets`, {
+                method: 'POST',
+                body: JSON.stringify(body),
+                headers: { 'content-type': 'application/json' },
+            })
+
+        expect((await post({ name: 'Rex' })).status).toBe(201)
+        expect((await post({ name: 1 })).status).toBe(400)
+    })
+
+    it('validates bodies with the schema of their content type', async () => {
+        const post = (body: string, contentType: string) =>
+            fetch(`${validated.url}/pets`, { method: 'POST', body, headers: { 'content-type': contentType } })
+        const form = 'application/x-www-form-urlencoded; charset=utf-8'
+
+        expect((await post('nickname=Rex', form)).status).toBe(201)
+        expect((await post('name=Rex', form)).status).toBe(400)
+        expect((await post(JSON.stringify({ nickname: 'Rex' }), 'application/json')).status).toBe(400)
+    })
+
+    it('skips validation without zod', async () => {
+        const response = await fetch(`${unvalidated.url}/pets/abc?tags=a`)
+
+        expect(response.status).toBe(200)
+        expect(unvalidated.received[0].params).toEqual({ petId: 'abc' })
+        expect(unvalidated.received[0].query).toEqual({ tags: 'a' })
+    })
+
+    it('registers routes on Fastify', async () => {
+        const routes: FastifyRoute[] = []
+        unvalidated.registerFastifyHandlers({ route: (options) => routes.push(options) }, unvalidated.handlers)
+        const reply = { code: jest.fn().mockReturnThis(), send: jest.fn().mockReturnThis() }
+
+        await routes[0].handler({ params: { petId: '1' }, query: {}, headers: {}, body: undefined }, reply)
+
+        expect(routes.map((r) => `${r.method} ${r.url}`)).toEqual(['GET /pets/:petId', 'POST /pets'])
+        expect(reply.code).toHaveBeenCalledWith(200)
+        expect(reply.send).toHaveBeenCalledWith({ id: 1 })
+    })
+})
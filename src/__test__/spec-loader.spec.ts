@@ -0,0 +1,78 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import { Readable } from 'stream'
+import { loadSpec, parseHeader, parseSpec } from '../spec-loader'
+
+const yaml = `openapi: 3.0.0
+info:
+  title: Pets
+  version: '1'
+paths:
+  /pets:
+    get:
+      responses: {}
+`
+
+describe('parseSpec', () => {
+    it('detects JSON and YAML from the content', () => {
+        expect(parseSpec('  {"openapi": "3.1.0", "paths": {"/pets": {}}}', 'spec').paths).toEqual({ '/pets': {} })
+        expect(Object.keys(parseSpec(yaml, 'spec').paths)).toEqual(['/pets'])
+    })
+
+    it('converts Swagger 2.0 documents', () => {
+        expect(parseSpec('swagger: "2.0"\npaths: {}\ndefinitions: { Pet: {} }', 'spec').components.schemas).toEqual({
+            Pet: {},
+        })
+    })
+
+    it('reports the source and format of unparsable content', () => {
+        expect(() => parseSpec('{"openapi": ', 'spec.json')).toThrow(/^Failed to parse spec.json as JSON: /)
+        expect(() => parseSpec('openapi: [3', 'spec.txt')).toThrow(/^Failed to parse spec.txt as YAML: /)
+        expect(() => parseSpec('<html></html>', 'https://example.com')).toThrow(
+            'https://example.com is not an OpenAPI or Swagger document',
+        )
+    })
+})
+
+describe('parseHeader', () => {
+    it('splits at the first colon', () => {
+        expect(parseHeader('Authorization: Bearer a:b')).toEqual(['Authorization', 'Bearer a:b'])
+        expect(() => parseHeader('Authorization')).toThrow('Invalid header "Authorization"')
+    })
+})
+
+describe('loadSpec', () => {
+    const requests: http.IncomingMessage[] = []
+    const server = http.createServer((req, res) => {
+        requests.push(req)
+        if (req.url === '/openapi') return res.end(yaml)
+        res.writeHead(404, 'Not Found').end()
+    })
+    let url: string
+
+    beforeAll(async () => {
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    })
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve))
+    })
+
+    it('fetches remote specs with the given headers', async () => {
+        const spec = await loadSpec(`${url}/openapi`, { headers: { authorization: 'Bearer token' } })
+
+        expect(Object.keys(spec.paths)).toEqual(['/pets'])
+        expect(requests[requests.length - 1].headers.authorization).toBe('Bearer token')
+    })
+
+    it('fails on unsuccessful responses', async () => {
+        await expect(loadSpec(`${url}/missing`)).rejects.toThrow(`Failed to fetch ${url}/missing: 404 Not Found`)
+    })
+
+    it('reads - from stdin', async () => {
+        const spec = await loadSpec('-', { stdin: Readable.from([yaml]) })
+
+        expect(Object.keys(spec.paths)).toEqual(['/pets'])
+    })
+})
@@ -0,0 +1,123 @@
+import { generateComponentTypes, generateIROperations, renderType } from '../functions'
+import { convertSwagger2, isSwagger2 } from '../swagger2'
+import { Swagger2Spec } from '../types'
+
+const petstore: Swagger2Spec = {
+    swagger: '2.0',
+    consumes: ['application/json'],
+    produces: ['application/json'],
+    paths: {
+        '/pets/{petId}': {
+            parameters: [{ name: 'petId', in: 'path', required: true, type: 'integer', format: 'int64' }],
+            get: {
+                operationId: 'getPet',
+                parameters: [{ name: 'expand', in: 'query', type: 'array', items: { type: 'string' } }],
+                responses: {
+                    '200': { description: 'ok', schema: { $ref: '#/definitions/Pet' } },
+                },
+            },
+            put: {
+                operationId: 'updatePet',
+                parameters: [{ name: 'body', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } }],
+                responses: { '204': { description: 'updated' } },
+            },
+        },
+        '/pets/{petId}/photo': {
+            post: {
+                operationId: 'uploadPhoto',
+                consumes: ['multipart/form-data'],
+                parameters: [
+                    { name: 'petId', in: 'path', required: true, type: 'integer' },
+                    { name: 'file', in: 'formData', required: true, type: 'file' },
+                    { name: 'caption', in: 'formData', type: 'string' },
+                ],
+                responses: { '201': { description: 'created' } },
+            },
+        },
+    },
+    definitions: {
+        Pet: {
+            type: 'object',
+            required: ['name'],
+            properties: {
+                name: { type: 'string' },
+                owner: { $ref: '#/definitions/Owner' },
+            },
+        } as any,
+        Owner: { type: 'object', properties: { id: { type: 'integer' } } } as any,
+    },
+}
+
+describe('convertSwagger2', () => {
+    it('detects swagger 2.0 documents', () => {
+        expect(isSwagger2(petstore)).toBe(true)
+        expect(isSwagger2({ openapi: '3.0.0' })).toBe(false)
+    })
+
+    it('moves definitions to components.schemas and rewrites refs', () => {
+        const converted = convertSwagger2(petstore)
+        const components = generateComponentTypes(converted.components)
+
+        expect(components.map((c) => c.name)).toEqual(['Pet', 'Owner'])
+        expect(renderType(components[0].type)).toContain('owner?: Components.Schemas.Owner;')
+    })
+
+    it('converts parameters, body and responses like an equivalent OAS3 document', () => {
+        const operations = generateIROperations(convertSwagger2(petstore), false)
+        const getPet = operations.find((op) => op.id === 'getPet')!
+        const updatePet = operations.find((op) => op.id === 'updatePet')!
+
+        expect(getPet.parameters.path.map((p) => p.param.name)).toEqual(['petId'])
+        expect(getPet.parameters.path[0].param.required).toBe(true)
+        expect(renderType(getPet.parameters.query[0].typeNode)).toBe('string[]')
+        expect(getPet.responses['200'].content?.['application/json'].schema).toEqual({
+            $ref: '#/components/schemas/Pet',
+        })
+
+        expect(updatePet.parameters.query).toHaveLength(0)
+        expect(updatePet.requestBody?.contentType).toBe('application/json')
+        expect(renderType(updatePet.requestBody!.type)).toBe('Components.Schemas.Pet')
+        expect(updatePet.responses['204'].content).toBeUndefined()
+    })
+
+    it('turns formData parameters into a multipart request body', () => {
+        const operations = generateIROperations(convertSwagger2(petstore), false)
+        const upload = operations.find((op) => op.id === 'uploadPhoto')!
+
+        expect(upload.requestBody?.contentType).toBe('multipart/form-data')
+        expect(upload.requestBody?.required).toBe(true)
+        expect(renderType(upload.requestBody!.type)).toContain('file: Blob;')
+        expect(upload.parameters.path.map((p) => p.param.name)).toEqual(['petId'])
+    })
+
+    it('lets operation parameters override shared path parameters they refer to', () => {
+        const converted = convertSwagger2({
+            swagger: '2.0',
+            paths: {
+                '/pets': {
+                    parameters: [{ $ref: '#/parameters/Limit' }, { name: 'tenant', in: 'header', type: 'string' }],
+                    get: {
+                        operationId: 'listPets',
+                        parameters: [{ name: 'limit', in: 'query', type: 'integer', maximum: 10 }],
+                        responses: {},
+                    },
+                    post: {
+                        operationId: 'createPet',
+                        parameters: [{ $ref: '#/parameters/Tenant' }],
+                        responses: {},
+                    },
+                },
+            },
+            parameters: {
+                Limit: { name: 'limit', in: 'query', type: 'integer' },
+                Tenant: { name: 'tenant', in: 'header', type: 'string', required: true },
+            },
+        } as unknown as Swagger2Spec)
+        const [listPets, createPet] = generateIROperations(converted, false)
+
+        expect(listPets.parameters.query.map((p) => [p.param.name, p.ref])).toEqual([['limit', undefined]])
+        expect(listPets.parameters.header.map((p) => p.param.name)).toEqual(['tenant'])
+        expect(createPet.parameters.query.map((p) => [p.param.name, p.ref])).toEqual([['limit', 'Limit']])
+        expect(createPet.parameters.header.map((p) => [p.param.name, p.ref])).toEqual([['tenant', 'Tenant']])
+    })
+})
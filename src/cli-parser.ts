@@ -3,6 +3,15 @@ type CLIOptions = {
     input?: string
     output?: string
     zod: boolean
+    client: boolean
+    axios: boolean
+    reactQuery: boolean
+    server: boolean
+    mocks: boolean
+    formatTypes?: string
+    typeOverrides?: string
+    enumStyle?: string
+    headers: string[]
 }
 
 const createSetter =
@@ -12,7 +21,16 @@ const createSetter =
     }
 
 export const parseArgs = (argv: string[]): CLIOptions => {
-    const opts: CLIOptions = { keepNoOpId: false, zod: false }
+    const opts: CLIOptions = {
+        keepNoOpId: false,
+        zod: false,
+        client: false,
+        axios: false,
+        reactQuery: false,
+        server: false,
+        mocks: false,
+        headers: [],
+    }
 
     const aliasMap: Record<string, keyof CLIOptions> = {
         '--keep': 'keepNoOpId',
@@ -23,6 +41,24 @@ export const parseArgs = (argv: string[]): CLIOptions => {
         '-o': 'output',
         '--zod': 'zod',
         '-z': 'zod',
+        '--client': 'client',
+        '-c': 'client',
+        '--axios': 'axios',
+        '-a': 'axios',
+        '--react-query': 'reactQuery',
+        '-q': 'reactQuery',
+        '--server': 'server',
+        '-s': 'server',
+        '--mocks': 'mocks',
+        '-m': 'mocks',
+        '--format-types': 'formatTypes',
+        '-f': 'formatTypes',
+        '--type-overrides': 'typeOverrides',
+        '-t': 'typeOverrides',
+        '--enum-style': 'enumStyle',
+        '-e': 'enumStyle',
+        '--header': 'headers',
+        '-H': 'headers',
     }
 
     const setOption = createSetter(opts)
@@ -32,8 +68,12 @@ export const parseArgs = (argv: string[]): CLIOptions => {
         const key = aliasMap[arg]
         if (!key) continue
 
-        if (typeof opts[key] === 'boolean') {
+        const current = opts[key]
+        if (typeof current === 'boolean') {
             setOption(key, true)
+        } else if (Array.isArray(current)) {
+            setOption(key, [...current, argv[i + 1]])
+            i++ // repeatable, e.g. several headers
         } else {
             setOption(key, argv[i + 1])
             i++ // skip next arg
@@ -0,0 +1,264 @@
+import { upperFirst } from 'lodash'
+import { renderMethodSignature, TypeNode } from './functions'
+import { OperationIR } from './types'
+
+/**
+ * Runtime of the generated client, independent of the spec. Parameters are serialized in the
+ * default OpenAPI style (`form` with `explode`), so arrays repeat the key and objects spread their properties.
+ */
+const CLIENT_RUNTIME = `
+export type Middleware = (request: Request, next: (request: Request) => Promise<Response>) => Promise<Response>
+
+export interface ClientOptions {
+    /** prepended to every path, e.g. \`https://api.example.com/v1\` */
+    baseURL?: string
+    /** defaults to the global fetch */
+    fetch?: (request: Request) => Promise<Response>
+    /** called in order around every request */
+    middleware?: Middleware[]
+    headers?: Record<string, string>
+}
+
+/** Thrown for responses outside the 2xx range, \`data\` holds the parsed body */
+export class ApiError extends Error {
+    readonly response: Response
+    readonly data: unknown
+
+    constructor(response: Response, data: unknown) {
+        super(\`\${response.status} \${response.statusText}\`)
+        this.name = 'ApiError'
+        this.response = response
+        this.data = data
+    }
+}
+
+export type ApiClient = OperationMethods & {
+    paths: PathsDictionary
+    /** resolve to the status, body and typed headers of every response instead of throwing */
+    withHeaders: OperationsWithHeaders
+}
+
+type ParameterLocation = 'path' | 'query' | 'header' | 'cookie'
+
+/** Type of a header value parsed from its string */
+type HeaderKind = 'string' | 'number' | 'boolean' | 'bigint' | 'date' | 'array'
+
+interface OperationDefinition {
+    method: string
+    path: string
+    parameters: Record<ParameterLocation, string[]>
+    contentTypes: string[]
+    /** documented response headers per documented status */
+    responseHeaders: Record<string, Record<string, HeaderKind>>
+    /** Zod response validators per documented status, which revive e.g. dates and bigints */
+    responseValidators?: Record<string, ResponseValidator>
+}
+
+interface ResponseValidator {
+    safeParse(data: unknown): { success: boolean; data?: unknown }
+}
+
+const appendParam = (search: URLSearchParams, name: string, value: unknown): void => {
+    if (value === undefined || value === null) return
+    if (Array.isArray(value)) value.forEach((item) => appendParam(search, name, item))
+    else if (value instanceof Date) search.append(name, value.toISOString())
+    else if (typeof value === 'object') Object.entries(value).forEach(([key, item]) => appendParam(search, key, item))
+    else search.append(name, String(value))
+}
+
+const pickParams = (parameters: Record<string, unknown>, names: string[]): [string, unknown][] =>
+    names.filter((name) => parameters[name] !== undefined && parameters[name] !== null).map((name) => [name, parameters[name]])
+
+const stringify = (data: unknown): string =>
+    JSON.stringify(data, (_, value) => (typeof value === 'bigint' ? value.toString() : value))
+
+const encodeBody = (data: unknown, contentTypes: string[]): { body?: BodyInit; contentType?: string } => {
+    if (data === undefined || data === null) return {}
+    // the boundary of multipart bodies is set by fetch
+    if (data instanceof FormData || data instanceof URLSearchParams) return { body: data }
+
+    const isBinary = (type: string) => !/json|^text\\/|^multipart\\/|x-www-form-urlencoded/i.test(type)
+    const contentType = (data instanceof Blob && contentTypes.find(isBinary)) || contentTypes[0] || 'application/json'
+    if (/^multipart\\//i.test(contentType)) {
+        const form = new FormData()
+        for (const [name, value] of Object.entries(data as object)) {
+            for (const item of Array.isArray(value) ? value : [value]) {
+                if (item === undefined || item === null) continue
+                if (item instanceof Blob) form.append(name, item)
+                else form.append(name, typeof item === 'object' ? stringify(item) : String(item))
+            }
+        }
+        return { body: form }
+    }
+    if (/x-www-form-urlencoded/i.test(contentType)) {
+        const search = new URLSearchParams()
+        Object.entries(data as object).forEach(([name, value]) => appendParam(search, name, value))
+        return { body: search, contentType }
+    }
+    if (/json/i.test(contentType)) return { body: stringify(data), contentType }
+    if (/^text\\//i.test(contentType)) return { body: String(data), contentType }
+    return { body: data as BodyInit, contentType }
+}
+
+const parseBody = async (response: Response): Promise<unknown> => {
+    if (response.status === 204 || response.status === 205) return undefined
+    const contentType = response.headers.get('content-type') ?? ''
+    if (/json/i.test(contentType)) {
+        const text = await response.text()
+        return text ? JSON.parse(text) : undefined
+    }
+    if (!contentType || /^text\\//i.test(contentType)) return (await response.text()) || undefined
+    return response.blob()
+}
+
+const parseHeader = (value: string, kind: HeaderKind): unknown => {
+    if (kind === 'number') return Number(value)
+    if (kind === 'boolean') return value === 'true'
+    if (kind === 'bigint') return BigInt(value)
+    if (kind === 'date') return new Date(value)
+    if (kind === 'array') return value.split(',').map((item) => item.trim())
+    return value
+}
+
+/** Documented status the response falls under, e.g. 404 -> \`404\`, \`4XX\` or \`default\` */
+const documentedStatus = (status: number, statuses: string[]): string | undefined =>
+    statuses.find((s) => s === String(status)) ??
+    statuses.find((s) => s.toUpperCase() === \`\${String(status)[0]}XX\`) ??
+    statuses.find((s) => s === 'default')
+
+const parseHeaders = (response: Response, definition: OperationDefinition): Record<string, unknown> => {
+    const status = documentedStatus(response.status, Object.keys(definition.responseHeaders))
+    const headers = Object.entries(status ? definition.responseHeaders[status] : {})
+    return Object.fromEntries(
+        headers.flatMap(([name, kind]) => {
+            const value = response.headers.get(name)
+            return value === null ? [] : [[name, parseHeader(value, kind)]]
+        }),
+    )
+}
+
+/** Bodies not matching the documented schema are returned as parsed */
+const reviveBody = (result: unknown, response: Response, definition: OperationDefinition): unknown => {
+    const validators = definition.responseValidators ?? {}
+    const status = documentedStatus(response.status, Object.keys(validators))
+    const parsed = status ? validators[status].safeParse(result) : undefined
+    return parsed?.success ? parsed.data : result
+}
+
+const sendRequest = async (
+    options: ClientOptions,
+    definition: OperationDefinition,
+    parameters: unknown,
+    data: unknown,
+    config: RequestInit = {},
+): Promise<{ response: Response; result: unknown }> => {
+    const { path, query, header, cookie } = definition.parameters
+    // a single value is the first path parameter
+    const params: Record<string, unknown> =
+        parameters !== null && typeof parameters === 'object'
+            ? (parameters as Record<string, unknown>)
+            : parameters === undefined || parameters === null
+              ? {}
+              : { [path[0] ?? query[0]]: parameters }
+
+    const resolvedPath = definition.path.replace(/{([^}]+)}/g, (match, name: string) =>
+        params[name] === undefined ? match : encodeURIComponent(String(params[name])),
+    )
+    const search = new URLSearchParams()
+    pickParams(params, query).forEach(([name, value]) => appendParam(search, name, value))
+    const queryString = search.toString()
+
+    const headers = new Headers(options.headers)
+    new Headers(config.headers).forEach((value, name) => headers.set(name, value))
+    pickParams(params, header).forEach(([name, value]) => headers.set(name, String(value)))
+    const cookies = pickParams(params, cookie).map(([name, value]) => \`\${name}=\${encodeURIComponent(String(value))}\`)
+    if (cookies.length) headers.set('cookie', cookies.join('; '))
+
+    const { body, contentType } = encodeBody(data, definition.contentTypes)
+    if (contentType && !headers.has('content-type')) headers.set('content-type', contentType)
+
+    const url = \`\${(options.baseURL ?? '').replace(/\\/$/, '')}\${resolvedPath}\${queryString ? \`?\${queryString}\` : ''}\`
+    const request = new Request(url, { ...config, method: definition.method, headers, body })
+
+    const fetchImpl = options.fetch ?? fetch
+    const dispatch = (options.middleware ?? []).reduceRight<(request: Request) => Promise<Response>>(
+        (next, middleware) => (req) => middleware(req, next),
+        (req) => fetchImpl(req),
+    )
+    const response = await dispatch(request)
+    return { response, result: reviveBody(await parseBody(response), response, definition) }
+}
+
+export const createClient = (options: ClientOptions = {}): ApiClient => {
+    const call = (definition: OperationDefinition) => async (parameters?: unknown, data?: unknown, config?: RequestInit) => {
+        const { response, result } = await sendRequest(options, definition, parameters, data, config)
+        if (!response.ok) throw new ApiError(response, result)
+        return result
+    }
+    const callWithHeaders =
+        (definition: OperationDefinition) => async (parameters?: unknown, data?: unknown, config?: RequestInit) => {
+            const { response, result } = await sendRequest(options, definition, parameters, data, config)
+            return { status: response.status, data: result, headers: parseHeaders(response, definition) }
+        }
+
+    const paths: Record<string, Record<string, unknown>> = {}
+    for (const definition of Object.values(operationDefinitions)) {
+        paths[definition.path] = { ...paths[definition.path], [definition.method.toLowerCase()]: call(definition) }
+    }
+    const methods = (wrap: typeof call) =>
+        Object.fromEntries(Object.entries(operationDefinitions).map(([id, definition]) => [id, wrap(definition)]))
+    return { ...methods(call), paths, withHeaders: methods(callWithHeaders) } as unknown as ApiClient
+}
+`
+
+/** Runtime counterpart of the header types, see \`Responses.Headers\` */
+const headerKind = (node: TypeNode): string => {
+    if (node.kind === 'array') return 'array'
+    if (node.kind !== 'identifier') return 'string'
+    if (node.name === 'number' || node.name === 'boolean' || node.name === 'bigint') return node.name
+    return node.name === 'Date' ? 'date' : 'string'
+}
+
+const renderDefinition = (op: OperationIR, zod: boolean): string => {
+    const names = (location: keyof OperationIR['parameters']) =>
+        JSON.stringify(op.parameters[location].map((p) => p.param.name))
+    const contentTypes = JSON.stringify(op.requestBody?.media.map((m) => m.contentType) ?? [])
+    const responseHeaders = Object.fromEntries(
+        Object.entries(op.responses).map(([status, resp]) => [
+            status,
+            Object.fromEntries((resp.typedHeaders ?? []).map((p) => [p.param.name, headerKind(p.typeNode)])),
+        ]),
+    )
+    return `${op.id}: {
+        method: '${op.method.toUpperCase()}',
+        path: '${op.path}',
+        parameters: { path: ${names('path')}, query: ${names('query')}, header: ${names('header')}, cookie: ${names('cookie')} },
+        contentTypes: ${contentTypes},
+        responseHeaders: ${JSON.stringify(responseHeaders)},
+        ${zod && Object.keys(op.responses).length ? `responseValidators: apiResponseValidatorsByStatus.${op.id},` : ''}
+    },`
+}
+
+/**
+ * Renders a fetch based client implementing `OperationMethods` and `PathsDictionary`,
+ * created with `createClient({ baseURL, middleware, fetch })`. With `zod` response bodies are
+ * parsed with `apiResponseValidatorsByStatus`, so formats mapped to runtime types are revived.
+ */
+export const renderClient = (operations: OperationIR[], zod = false): string => {
+    return `
+    ${CLIENT_RUNTIME}
+
+    export interface OperationsWithHeaders {
+        ${operations
+            .map(
+                (op) =>
+                    `${op.id}: ${renderMethodSignature(op, `Promise<Paths.${upperFirst(op.id)}.ResultWithHeaders>`)};`,
+            )
+            .join('\n')}
+    }
+
+    const operationDefinitions: Record<string, OperationDefinition> = {
+        ${operations.map((op) => renderDefinition(op, zod)).join('\n')}
+    }
+    `
+}
@@ -0,0 +1,158 @@
+import path from 'path'
+import { camelCase, upperFirst } from 'lodash'
+import { isSchemaRef, OpenApiIR, Schema, SchemaRef } from './types'
+
+/** Reads and parses the document at the given location */
+export type DocumentReader = (url: URL) => Promise<unknown>
+
+/**
+ * Whether a value is a schema, a map of schemas (`components.schemas`) or any other part of the
+ * document. External schemas are hoisted into components, anything else is inlined.
+ */
+type Context = 'schema' | 'schemas' | 'other'
+
+/** Keywords holding plain values inside schemas, which are not searched for refs */
+const VALUE_KEYWORDS = ['example', 'examples', 'default', 'enum', 'const']
+
+const COMPONENT_POINTER = /^\/(?:components\/schemas|definitions)\/([^/]+)$/
+
+const childContext = (context: Context, key: string): Context => {
+    if (context !== 'other') return 'schema'
+    return key === 'schema' ? 'schema' : key === 'schemas' ? 'schemas' : 'other'
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object'
+
+const documentUrl = (url: URL): URL => new URL(url.href.replace(/#.*$/, ''))
+
+const pointerOf = (url: URL): string => decodeURIComponent(url.hash.slice(1))
+
+/** Last segment of the JSON pointer, or the file name of a whole document ref */
+const refName = (url: URL): string => {
+    const name = pointerOf(url).split('/').pop()?.replace(/~1/g, '/').replace(/~0/g, '~') || fileName(url)
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : upperFirst(camelCase(name))
+}
+
+/** e.g. `./schemas/billing.v2.yaml` -> `BillingV2` */
+const fileName = (url: URL): string =>
+    upperFirst(camelCase(path.posix.basename(url.pathname).replace(/\.(json|ya?ml)$/i, '')))
+
+const resolvePointer = (document: unknown, url: URL): unknown => {
+    const tokens = pointerOf(url).split('/').slice(1)
+    return tokens.reduce((value, token) => {
+        const key = token.replace(/~1/g, '/').replace(/~0/g, '~')
+        if (!isObject(value) || !(key in value)) throw new Error(`Can't resolve $ref ${url.href}`)
+        return value[key]
+    }, document)
+}
+
+/**
+ * Resolves refs to other files relative to the document containing them. Referenced schemas are
+ * hoisted into `components.schemas`, named after the last segment of the ref and prefixed with
+ * their file name when taken, e.g. `billing.yaml#/Error` -> `BillingError`. Other external refs,
+ * e.g. path items or responses, are replaced by their content.
+ */
+export const hoistExternalRefs = async (
+    spec: OpenApiIR,
+    document: unknown,
+    location: URL,
+    read: DocumentReader,
+): Promise<OpenApiIR> => {
+    const root = documentUrl(location)
+    const documents = new Map<string, Promise<unknown>>([[root.href, Promise.resolve(document)]])
+    const rootSchemas = (spec.components?.schemas ?? {}) as Record<string, Schema | SchemaRef>
+    // external ref href -> component name
+    const names = new Map<string, string>()
+    const hoisted = new Map<string, Schema>()
+    const inlining = new Set<string>()
+
+    // components which only refer to another file keep their name, e.g. `Pet: { $ref: ./pet.yaml }`
+    for (const [name, schema] of Object.entries(rootSchemas)) {
+        if (!isSchemaRef(schema) || schema.$ref.startsWith('#')) continue
+        const url = new URL(schema.$ref, root)
+        if (!names.has(url.href)) names.set(url.href, name)
+    }
+
+    const load = (url: URL): Promise<unknown> => {
+        const doc = documentUrl(url)
+        if (!documents.has(doc.href)) documents.set(doc.href, read(doc))
+        return documents.get(doc.href)!.then((content) => resolvePointer(content, url))
+    }
+
+    const isTaken = (name: string) => name in rootSchemas || [...names.values()].includes(name)
+
+    const uniqueName = (url: URL): string => {
+        const name = refName(url)
+        if (!isTaken(name)) return name
+        const prefixed = name.startsWith(fileName(url)) ? name : `${fileName(url)}${name}`
+        let unique = prefixed
+        for (let i = 2; isTaken(unique); i++) unique = `${prefixed}${i}`
+        return unique
+    }
+
+    /** Local ref of the component the schema at the given location is hoisted into */
+    const schemaRef = async (url: URL): Promise<string> => {
+        const component = documentUrl(url).href === root.href && pointerOf(url).match(COMPONENT_POINTER)
+        if (component) return `#/components/schemas/${component[1]}`
+        const name = names.get(url.href) ?? uniqueName(url)
+        names.set(url.href, name)
+        if (!hoisted.has(name)) {
+            // reserved before walking the schema, so circular refs end up here
+            hoisted.set(name, {})
+            hoisted.set(name, (await walk(await load(url), documentUrl(url), 'schema')) as Schema)
+        }
+        return `#/components/schemas/${name}`
+    }
+
+    const isLocal = (ref: string, base: URL) => ref.startsWith('#') && base.href === root.href
+
+    // walked in order, so the names don't depend on which file happens to load first
+    const walk = async (value: unknown, base: URL, context: Context): Promise<unknown> => {
+        if (Array.isArray(value)) {
+            const items: unknown[] = []
+            for (const item of value) items.push(await walk(item, base, context))
+            return items
+        }
+        if (!isObject(value)) return value
+
+        const { $ref, ...rest } = value
+        if (typeof $ref === 'string' && !isLocal($ref, base)) {
+            const url = new URL($ref, base)
+            if (context === 'schema') return { ...rest, $ref: await schemaRef(url) }
+            if (inlining.has(url.href)) throw new Error(`Circular $ref ${url.href} can only be used for schemas`)
+            inlining.add(url.href)
+            const content = await walk(await load(url), documentUrl(url), context)
+            inlining.delete(url.href)
+            return { ...(content as object), ...rest }
+        }
+
+        const walked: Record<string, unknown> = {}
+        for (const [key, v] of Object.entries(value)) {
+            if (context === 'schema' && VALUE_KEYWORDS.includes(key)) walked[key] = v
+            else if (context === 'schema' && key === 'discriminator') walked[key] = await walkDiscriminator(v, base)
+            else walked[key] = await walk(v, base, childContext(context, key))
+        }
+        return walked
+    }
+
+    /** Mapping values are refs too, unless they are plain component names */
+    const walkDiscriminator = async (discriminator: unknown, base: URL): Promise<unknown> => {
+        if (!isObject(discriminator) || !isObject(discriminator.mapping)) return discriminator
+        const mapping: Record<string, unknown> = {}
+        for (const [tag, ref] of Object.entries(discriminator.mapping)) {
+            const external = typeof ref === 'string' && !isLocal(ref, base) && /[#/]/.test(ref)
+            mapping[tag] = external ? await schemaRef(new URL(ref, base)) : ref
+        }
+        return { ...discriminator, mapping }
+    }
+
+    const walked = (await walk(spec, root, 'other')) as OpenApiIR
+    if (!hoisted.size) return walked
+    return {
+        ...walked,
+        components: {
+            ...walked.components,
+            schemas: { ...walked.components?.schemas, ...Object.fromEntries(hoisted) },
+        },
+    }
+}
@@ -1,31 +1,94 @@
 import { camelCase, upperFirst } from 'lodash'
 import {
     ComponentIR,
+    EnumStyle,
+    FormatType,
+    ImportIR,
     isSchemaRef,
     MediaType,
+    MediaTypeObject,
     OpenApiIR,
+    OpenAPIHeader,
+    OpenAPIParameter,
     OpenAPIResponse,
+    Operation,
     OperationIR,
-    Responses,
+    RequestBody,
+    RequestBodyIR,
+    RequestBodyMediaIR,
+    ResponseIR,
     Schema,
+    SchemaMappingOptions,
     SchemaRef,
+    SharedComponentsIR,
     TypedParam,
+    TypeOverride,
 } from './types'
 
+const CONSTRAINT_KEYWORDS = [
+    'format',
+    'minLength',
+    'maxLength',
+    'pattern',
+    'minimum',
+    'maximum',
+    'exclusiveMinimum',
+    'exclusiveMaximum',
+    'multipleOf',
+    'minItems',
+    'maxItems',
+    'uniqueItems',
+] as const
+
+type Constraints = Pick<Schema, (typeof CONSTRAINT_KEYWORDS)[number]> & { integer?: boolean }
+
 type TypeNodeBase = {
     description?: string
     example?: string
     nullable?: boolean
+    constraints?: Constraints
+    /** Zod expression used instead of the one derived from the node, e.g. for mapped formats */
+    zod?: string
+    /** user defined types and schemas the node refers to */
+    imports?: ImportIR[]
+    /** properties left out of request types */
+    readOnly?: boolean
+    /** properties left out of response types */
+    writeOnly?: boolean
+}
+
+type EnumMemberIR = {
+    /** from `x-enum-varnames` or the value, e.g. `in_progress` -> `InProgress` */
+    name: string
+    value: string | number | boolean
+    /** from `x-enum-descriptions` */
+    description?: string
+}
+
+type EnumIR = {
+    style: EnumStyle
+    members: EnumMemberIR[]
+}
+
+type DiscriminatorIR = {
+    propertyName: string
+    /** tag values of each union member, in the same order as `types` */
+    values: string[][]
 }
 
 export type TypeNode =
     | ({ kind: 'identifier' } & TypeNodeBase & { name: string })
     | ({ kind: 'literal' } & TypeNodeBase & { value: string | number | boolean })
     | ({ kind: 'array' } & TypeNodeBase & { element: TypeNode })
-    | ({ kind: 'union' } & TypeNodeBase & { types: TypeNode[] })
+    | ({ kind: 'tuple' } & TypeNodeBase & { elements: TypeNode[]; rest?: TypeNode })
+    | ({ kind: 'union' } & TypeNodeBase & { types: TypeNode[]; discriminator?: DiscriminatorIR; enum?: EnumIR })
     | ({ kind: 'intersection' } & TypeNodeBase & { types: TypeNode[] })
     | ({ kind: 'generic' } & TypeNodeBase & { base: TypeNode; params: TypeNode[] })
-    | ({ kind: 'object' } & TypeNodeBase & { properties: Record<string, TypeNode>; required: string[] })
+    | ({ kind: 'object' } & TypeNodeBase & {
+              properties: Record<string, TypeNode>
+              required: string[]
+              additionalProperties?: TypeNode | false
+          })
 
 export const identifier = (name: string, schema?: Schema): TypeNode => ({ kind: 'identifier', name, ...schema })
 export const union = (types: TypeNode[]): TypeNode => ({ kind: 'union', types })
@@ -33,74 +96,388 @@ export const intersection = (types: TypeNode[]): TypeNode => ({ kind: 'intersect
 export const generic = (base: TypeNode, params: TypeNode[]): TypeNode => ({ kind: 'generic', base, params })
 export const literal = (value: string | number | boolean): TypeNode => ({ kind: 'literal', value })
 export const arrayOf = (element: TypeNode): TypeNode => ({ kind: 'array', element })
+export const tuple = (elements: TypeNode[], rest?: TypeNode): TypeNode => ({ kind: 'tuple', elements, rest })
+
+/** Files are Blobs as well */
+export const binary = (): TypeNode => identifier('Blob')
+
+const PRIMITIVE_TYPES = ['string', 'number', 'boolean', 'null', 'any', 'unknown', 'never']
+// runtime classes validated with z.instanceof
+const INSTANCE_TYPES = ['Blob', 'File', 'FormData', 'URLSearchParams']
+
+/**
+ * Collects `$defs` (JSON Schema 2020-12) so refs into them resolve to a named component. Defs named like
+ * a component or an earlier def are named after the schema declaring them, e.g. `PetAddress`, and the
+ * refs to them are listed in `refNames`.
+ */
+const collectDefs = (
+    schemas: Record<string, Schema>,
+): { defs: Record<string, Schema>; refNames: Record<string, string> } => {
+    const defs: Record<string, Schema> = {}
+    const refNames: Record<string, string> = {}
+    const taken = new Set(Object.keys(schemas).map(toSafeName))
+    const seen = new Set<Schema>()
+    const visit = (schema: Schema | SchemaRef, owner: string, pointer: string) => {
+        if (!schema || isSchemaRef(schema) || !schema.$defs) return
+        for (const [key, def] of Object.entries(schema.$defs)) {
+            if (isSchemaRef(def) || seen.has(def)) continue
+            seen.add(def)
+            const base = toSafeName(key)
+            let name = taken.has(base) ? `${owner}${upperFirst(base)}` : base
+            for (let i = 2; taken.has(name); i++) name = `${owner}${upperFirst(base)}${i}`
+            taken.add(name)
+            defs[name] = def
+            const ref = `${pointer}/$defs/${key}`
+            if (name !== base) refNames[ref] = name
+            visit(def, name, ref)
+        }
+    }
+    Object.entries(schemas).forEach(([name, schema]) => visit(schema, toSafeName(name), `#/components/schemas/${name}`))
+    return { defs, refNames }
+}
+
+/** Adds the names of the renamed `$defs` refs point to, see `collectDefs` */
+const withDefRefNames = (components: OpenApiIR['components'], options: SchemaMappingOptions): SchemaMappingOptions => {
+    const { refNames } = collectDefs((components?.schemas ?? {}) as unknown as Record<string, Schema>)
+    return Object.keys(refNames).length ? { ...options, refNames: { ...options.refNames, ...refNames } } : options
+}
 
-export const generateComponentTypes = (components: OpenApiIR['components']): ComponentIR[] => {
+const mapComponentTypes = (components: OpenApiIR['components'], options: SchemaMappingOptions): ComponentIR[] => {
     if (!components?.schemas) return []
-    return Object.entries(components.schemas).map(([name, schema]: [name: string, schema: Schema]) => ({
-        ...schema,
-        name: toSafeName(name),
-        type: mapSchemaToTypeNode(schema),
-    }))
+    const schemas = components.schemas as unknown as Record<string, Schema>
+    const { defs, refNames } = collectDefs(schemas)
+    const all = { ...schemas, ...defs }
+    const scoped = { ...options, refNames: { ...options.refNames, ...refNames } }
+    const mapped = Object.entries(all).map(([name, schema]: [name: string, schema: Schema]) => {
+        const override = options.typeOverrides?.components?.[name]
+        return {
+            ...schema,
+            name: toSafeName(name),
+            type: override ? overrideTypeNode(override, scoped) : mapSchemaNode(schema, [], scoped),
+        }
+    })
+    return extractSharedEnums(mapped)
 }
 
-export const generateIROperations = (spec: OpenApiIR, keepNoOpId: boolean): OperationIR[] => {
-    const operations: OperationIR[] = []
+/** Identifies an enum by the names and values of its members, undefined for other types */
+const enumKey = (node: TypeNode): string | undefined =>
+    node.kind === 'union' && node.enum ? JSON.stringify(node.enum.members.map((m) => [m.name, m.value])) : undefined
+
+/**
+ * Enums repeated across properties are extracted into a component named after the first property,
+ * e.g. `status` -> `Status`, or `OrderStatus` when taken. Enums declared by a component are referred
+ * to by name.
+ */
+const extractSharedEnums = (components: ComponentIR[]): ComponentIR[] => {
+    const shared = new Map<string, string>()
+    for (const { name, type } of components) {
+        const key = enumKey(type)
+        if (key && !type.nullable && !shared.has(key)) shared.set(key, name)
+    }
+    const found = new Map<string, { count: number; property: string; owner: string; node: TypeNode }>()
+    const collect = (node: TypeNode, owner: string, property: string): TypeNode => {
+        const key = enumKey(node)
+        const first = key && found.get(key)
+        if (key) found.set(key, first ? { ...first, count: first.count + 1 } : { count: 1, property, owner, node })
+        return mapChildTypes(node, (child, key) => collect(child, owner, key ?? property))
+    }
+    components.forEach(({ name, type }) => mapChildTypes(type, (child, key) => collect(child, name, key ?? '')))
+
+    const taken = new Set(components.map((c) => c.name))
+    const extracted: ComponentIR[] = []
+    for (const [key, { count, property, owner, node }] of found) {
+        if (count < 2 || shared.has(key)) continue
+        const base = typeNameOf(property || 'Enum')
+        let name = taken.has(base) ? `${owner}${base}` : base
+        for (let i = 2; taken.has(name); i++) name = `${owner}${base}${i}`
+        taken.add(name)
+        shared.set(key, name)
+        // the description, nullability and access belong to the properties
+        const { description, example, nullable, readOnly, writeOnly, ...type } = node
+        extracted.push({ name, type })
+    }
 
-    for (const [pathKey, methods] of Object.entries(spec.paths)) {
-        for (const [method, op] of Object.entries(methods)) {
+    const replace = (node: TypeNode): TypeNode => {
+        const name = shared.get(enumKey(node) ?? '')
+        if (!name) return mapChildTypes(node, replace)
+        const { description, example, nullable, readOnly, writeOnly } = node
+        const usage = Object.entries({ description, example, nullable, readOnly, writeOnly }).filter(([, v]) => v)
+        return { kind: 'identifier', name: `Components.Schemas.${name}`, ...Object.fromEntries(usage) }
+    }
+    return [...components.map((c) => ({ ...c, type: mapChildTypes(c.type, replace) })), ...extracted]
+}
+
+/** Request variants of the components, see `inputVariants` */
+const componentInputVariants = (components: OpenApiIR['components'], options: SchemaMappingOptions) =>
+    inputVariants(mapComponentTypes(components, options))
+
+/**
+ * Components with readOnly or writeOnly properties are split into a response type without the
+ * writeOnly properties, e.g. `User`, and a request type without the readOnly ones, e.g. `UserInput`
+ */
+export const generateComponentTypes = (
+    components: OpenApiIR['components'],
+    options: SchemaMappingOptions = {},
+): ComponentIR[] => {
+    const mapped = mapComponentTypes(components, options)
+    const variants = inputVariants(mapped)
+    return mapped.flatMap((component) => {
+        const input = variants.get(component.name)
+        if (!input) return [component]
+        return [
+            { ...component, type: forAccess(component.type, 'response', variants) },
+            { ...component, name: input, type: forAccess(component.type, 'request', variants) },
+        ]
+    })
+}
+
+/** Names of the generated component types and schemas, which imported types must not shadow */
+export const componentNames = (components: OpenApiIR['components']): Set<string> => {
+    const names = generateComponentTypes(components).map((component) => component.name)
+    return new Set(names.flatMap((name) => [name, `${name}Schema`]))
+}
+
+/** e.g. `application/json` -> `Json`, `multipart/form-data` -> `Multipart`, `text/plain` -> `TextPlain` */
+const mediaTypeName = (contentType: string): string => {
+    const [type, subtype = ''] = contentType.split(';')[0].trim().toLowerCase().split('/')
+    if (type === 'multipart') return 'Multipart'
+    if (subtype === 'x-www-form-urlencoded') return 'FormUrlencoded'
+    if (type === '*') return 'Any'
+    const name = upperFirst(camelCase(subtype.replace(/^(x-|vnd\.)/, '')))
+    return type === 'application' ? name || 'Application' : `${upperFirst(type)}${name}`
+}
+
+const isBinaryContentType = (contentType: string) =>
+    contentType.split(',').every((mime) => !/json|^\s*text\//i.test(mime))
+
+/**
+ * Multipart bodies accept FormData and have parts with a binary `encoding.contentType` typed as files,
+ * form-urlencoded bodies accept URLSearchParams as is.
+ */
+const mapRequestBodyType = (
+    contentType: string,
+    media: MediaTypeObject,
+    options: SchemaMappingOptions,
+    variants: Map<string, string>,
+): TypeNode => {
+    const node = forAccess(mapSchemaNode(media.schema, [], options), 'request', variants)
+    if (contentType.startsWith('multipart/')) {
+        if (node.kind !== 'object' || !media.encoding) return union([node, identifier('FormData')])
+        const properties = { ...node.properties }
+        for (const [name, encoding] of Object.entries(media.encoding)) {
+            if (properties[name] && encoding.contentType && isBinaryContentType(encoding.contentType)) {
+                properties[name] = { ...binary(), description: properties[name].description }
+            }
+        }
+        return union([{ ...node, properties }, identifier('FormData')])
+    }
+    if (contentType.startsWith('application/x-www-form-urlencoded')) {
+        return union([node, identifier('URLSearchParams')])
+    }
+    return node
+}
+
+/**
+ * Follows refs to `#/components/<section>/<name>`, e.g. shared parameters, returning the target and
+ * the type name of the first component referred to. Unresolvable refs are returned as is.
+ */
+const resolveComponent = <T extends object>(
+    components: OpenApiIR['components'],
+    value: T | SchemaRef,
+    section: string,
+): { value: T; ref?: string } => {
+    const prefix = `#/components/${section}/`
+    const entries = (components?.[section] ?? {}) as unknown as Record<string, T | SchemaRef>
+    const seen = new Set<string>()
+    let current = value
+    let ref: string | undefined
+    while ('$ref' in current && typeof current.$ref === 'string' && current.$ref.startsWith(prefix)) {
+        const name = current.$ref.slice(prefix.length)
+        if (seen.has(name) || !entries[name]) break
+        seen.add(name)
+        ref ??= toSafeName(name)
+        current = entries[name]
+    }
+    return { value: current as T, ref }
+}
+
+const mapParameter = (
+    param: OpenAPIParameter,
+    options: SchemaMappingOptions,
+    variants: Map<string, string>,
+    access: Access,
+    ref?: string,
+): TypedParam => ({
+    param,
+    typeName: upperFirst(toSafeName(param.name)),
+    typeNode: forAccess(mapSchemaNode(param.schema, [], options), access, variants),
+    ...(ref ? { ref } : {}),
+})
+
+const mapRequestBody = (
+    body: RequestBody,
+    options: SchemaMappingOptions,
+    variants: Map<string, string>,
+): RequestBodyIR | undefined => {
+    if (!body.content) return undefined
+    const names = new Set<string>()
+    const media = Object.entries(body.content).map(([contentType, media]) => {
+        let name = mediaTypeName(contentType)
+        for (let i = 2; names.has(name); i++) name = `${mediaTypeName(contentType)}${i}`
+        names.add(name)
+        return {
+            contentType,
+            name,
+            encoding: media.encoding,
+            type: mapRequestBodyType(contentType, media, options, variants),
+        } as RequestBodyMediaIR
+    })
+
+    return {
+        contentType: media[0].contentType,
+        type: media[0].type,
+        required: !!body.required,
+        media,
+    }
+}
+
+/** Response headers are typed like header parameters, `Content-Type` is described by the content instead */
+const mapResponseHeaders = (
+    components: OpenApiIR['components'],
+    headers: Record<string, OpenAPIHeader | SchemaRef>,
+    options: SchemaMappingOptions,
+    variants: Map<string, string>,
+): TypedParam[] =>
+    Object.entries(headers)
+        .filter(([name]) => name.toLowerCase() !== 'content-type')
+        .map(([name, header]) => {
+            const { value, ref } = resolveComponent<OpenAPIHeader>(components, header, 'headers')
+            const { description, required = false, schema } = value
+            const param: OpenAPIParameter = { name, in: 'header', required, schema: schema!, description }
+            return mapParameter(param, options, variants, 'response', ref)
+        })
+
+const mapResponse = (
+    components: OpenApiIR['components'],
+    resp: OpenAPIResponse,
+    options: SchemaMappingOptions,
+    variants: Map<string, string>,
+): ResponseIR => ({
+    description: resp.description,
+    headers: resp.headers,
+    content: resp.content
+        ? Object.fromEntries(
+              Object.entries(resp.content).map(([mime, media]) => [
+                  mime,
+                  {
+                      schema: media.schema,
+                      example: media.example,
+                      examples: media.examples,
+                      encoding: media.encoding,
+                  } as MediaType,
+              ]),
+          )
+        : undefined,
+    type: responseTypeNode(resp, options, variants),
+    typedHeaders: mapResponseHeaders(components, resp.headers ?? {}, options, variants),
+})
+
+const mapHeader = (header: OpenAPIHeader, options: SchemaMappingOptions, variants: Map<string, string>): TypeNode => {
+    const node = forAccess(mapSchemaNode(header.schema!, [], options), 'response', variants)
+    return header.description ? { ...node, description: header.description } : node
+}
+
+/** The shared parameters, responses, request bodies and headers operations refer to by name */
+export const generateSharedComponents = (
+    components: OpenApiIR['components'],
+    options: SchemaMappingOptions = {},
+): SharedComponentsIR => {
+    options = withDefRefNames(components, options)
+    const variants = componentInputVariants(components, options)
+    const section = <T extends object, R>(name: string, map: (value: T) => R | undefined): Record<string, R> => {
+        const entries = Object.entries((components?.[name] ?? {}) as unknown as Record<string, T | SchemaRef>)
+        return Object.fromEntries(
+            entries
+                .map(([key, value]) => [toSafeName(key), map(resolveComponent<T>(components, value, name).value)])
+                .filter(([, mapped]) => mapped !== undefined),
+        )
+    }
+    return {
+        parameters: section<OpenAPIParameter, TypedParam>('parameters', (p) =>
+            mapParameter(p, options, variants, 'request'),
+        ),
+        responses: section<OpenAPIResponse, ResponseIR>('responses', (r) =>
+            mapResponse(components, r, options, variants),
+        ),
+        requestBodies: section<RequestBody, RequestBodyIR>('requestBodies', (b) =>
+            mapRequestBody(b, options, variants),
+        ),
+        headers: section<OpenAPIHeader, TypeNode>('headers', (h) => mapHeader(h, options, variants)),
+    }
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace']
+
+const resolveParameters = (
+    components: OpenApiIR['components'],
+    params: (OpenAPIParameter | SchemaRef)[],
+): { param: OpenAPIParameter; ref?: string }[] =>
+    params.map((p, i) => {
+        const { value: param, ref } = resolveComponent<OpenAPIParameter>(components, p, 'parameters')
+        if (!param.name) {
+            const refName = '$ref' in param ? (param.$ref?.split('/').pop() ?? `unnamedParam${i}`) : ''
+            param.name = refName
+        }
+        return { param, ref }
+    })
+
+export const generateIROperations = (
+    spec: OpenApiIR,
+    keepNoOpId: boolean,
+    options: SchemaMappingOptions = {},
+): OperationIR[] => {
+    const operations: OperationIR[] = []
+    options = withDefRefNames(spec.components, options)
+    // request bodies and parameters refer to the request variants of components, e.g. `UserInput`
+    const variants = componentInputVariants(spec.components, options)
+
+    for (const [pathKey, pathItem] of Object.entries(spec.paths)) {
+        const pathParams = resolveParameters(spec.components, pathItem.parameters ?? [])
+        for (const method of Object.keys(pathItem).filter((key) => HTTP_METHODS.includes(key))) {
+            const op = pathItem[method] as Operation | undefined
             if (!op) continue
             if (!keepNoOpId && !op.operationId) continue
             const opId = op.operationId
                 ? toSafeName(op.operationId)
                 : toSafeName(camelCase(`${method} ${pathKey.replace(/[\/{}]/g, ' ')}`))
             const summary = `${opId}${op.summary ? ` – ${op.summary}` : ''}`
-            const fallbackNamedParams = (op.parameters || []).map((p, i) => {
-                if (!p.name) {
-                    const refName = '$ref' in p ? (p.$ref?.split('/').pop() ?? `unnamedParam${i}`) : ''
-                    p.name = refName
-                }
-                return p
-            })
-            const filteredParams = fallbackNamedParams.filter((p) => !p.name.endsWith('@TypeHint'))
-
-            const parameters = filteredParams.map((p, i) => {
-                const typeName = upperFirst(toSafeName(p.name))
-                const typeNode = mapSchemaToTypeNode(p.schema)
-                return { param: p, typeName, typeNode } as TypedParam
-            })
-
-            const requestBody: OperationIR['requestBody'] = (() => {
-                if (!op.requestBody?.content) return undefined
-                const [contentType, media] = Object.entries(op.requestBody.content)[0]
-
-                return {
-                    contentType,
-                    type: mapSchemaToTypeNode(media.schema),
-                }
+            const opParams = resolveParameters(spec.components, op.parameters || [])
+            // operation parameters override the path item ones with the same name and location
+            const resolvedParams = [
+                ...opParams,
+                ...pathParams.filter(({ param }) =>
+                    opParams.every((p) => p.param.name !== param.name || p.param.in !== param.in),
+                ),
+            ]
+            const parameters = resolvedParams
+                .filter(({ param }) => !param.name.endsWith('@TypeHint'))
+                .map(({ param, ref }) => mapParameter(param, options, variants, 'request', ref))
+
+            const requestBody = (() => {
+                if (!op.requestBody) return undefined
+                const { value, ref } = resolveComponent<RequestBody>(spec.components, op.requestBody, 'requestBodies')
+                const body = mapRequestBody(value, options, variants)
+                return body && ref ? { ...body, ref } : body
             })()
 
-            const responses: Responses = Object.fromEntries(
-                Object.entries(op.responses ?? {}).map(([status, resp]) => [
-                    status,
-                    {
-                        description: resp.description,
-                        headers: resp.headers,
-                        content: resp.content
-                            ? Object.fromEntries(
-                                  Object.entries(resp.content).map(([mime, media]) => [
-                                      mime,
-                                      {
-                                          schema: media.schema,
-                                          example: media.example,
-                                          examples: media.examples,
-                                          encoding: media.encoding,
-                                      } as MediaType,
-                                  ]),
-                              )
-                            : undefined,
-                    } as OpenAPIResponse,
-                ]),
+            const responses: Record<string, ResponseIR> = Object.fromEntries(
+                Object.entries(op.responses ?? {}).map(([status, resp]) => {
+                    const { value, ref } = resolveComponent<OpenAPIResponse>(spec.components, resp, 'responses')
+                    const response = mapResponse(spec.components, value, options, variants)
+                    return [status, ref ? { ...response, ref } : response]
+                }),
             )
+            const pagination = op['x-pagination']
             operations.push({
                 id: opId,
                 path: pathKey,
@@ -115,6 +492,11 @@ export const generateIROperations = (spec: OpenApiIR, keepNoOpId: boolean): Oper
                 responses,
                 description: op.description,
                 requestBody,
+                // only query parameters can be paged
+                ...(pagination &&
+                parameters.some((x) => x.param.in === 'query' && x.param.name === pagination.pageParam)
+                    ? { pagination }
+                    : {}),
             })
         }
     }
@@ -138,22 +520,61 @@ const cleanDescription = (desc?: string): string | undefined => {
     return cleaned
 }
 
-export const renderComponents = (components: ComponentIR[], zod: boolean) => {
+/** Enums declared as TS enums or `as const` objects, which hold values unlike type aliases */
+export const isValueEnum = (node: TypeNode): boolean =>
+    node.kind === 'union' &&
+    !!node.enum &&
+    node.enum.style !== 'union' &&
+    !node.nullable &&
+    node.enum.members.every((m) => typeof m.value === 'string' || typeof m.value === 'number')
+
+/** Enums in the chosen style, literal unions only when they have member descriptions to document */
+const renderEnumDeclaration = (name: string, node: TypeNode): string | undefined => {
+    if (node.kind !== 'union' || !node.enum || node.nullable) return undefined
+    const withDoc = (m: EnumMemberIR, line: string) =>
+        m.description ? `/** ${cleanDescription(m.description)} */\n${line}` : line
+    const { style, members } = node.enum
+    if (!isValueEnum(node)) {
+        if (!members.some((m) => m.description)) return undefined
+        return `export type ${name} =\n${members.map((m) => withDoc(m, `| ${JSON.stringify(m.value)}`)).join('\n')}`
+    }
+    if (style === 'enum') {
+        return `export enum ${name} {
+            ${members.map((m) => withDoc(m, `${m.name} = ${JSON.stringify(m.value)},`)).join('\n')}
+        }`
+    }
+    return `export const ${name} = {
+        ${members.map((m) => withDoc(m, `${m.name}: ${JSON.stringify(m.value)},`)).join('\n')}
+    } as const
+    export type ${name} = (typeof ${name})[keyof typeof ${name}]
+    export const ${name}Values = [${members.map((m) => JSON.stringify(m.value)).join(', ')}] as const`
+}
+
+/** Objects are declared as interfaces, enums in their style and anything else as type aliases */
+const renderDeclaration = (name: string, type: TypeNode, description?: string): string => {
+    const exportType = type.kind === 'object' && !type.nullable ? 'interface' : 'type'
+    const equals = exportType === 'type' ? ' =' : ''
+    const docLines = [cleanDescription(description), ...describeConstraints(type.constraints)]
+    const doc = docLines.filter((line): line is string => !!line)
+    return `
+            ${doc.length > 1 ? toComment(doc) : doc.length ? `/** ${doc[0]} */` : ''}
+            ${renderEnumDeclaration(name, type) ?? `export ${exportType} ${name}${equals} ${renderTypeWithComment(type)}`}`
+}
+
+/** Zod schema of a named type, enums with values are validated by them */
+const renderNamedZod = (name: string, type: TypeNode, processing?: Set<string>): string =>
+    isValueEnum(type) ? `z.enum(${name})` : normalizeZod(renderZod(type, processing))
+
+export const renderComponents = (components: ComponentIR[], zod: boolean, shared?: SharedComponentsIR) => {
     return `
     export namespace Components {
         export namespace Schemas {
-            ${zod ? renderZodComponents(components) : ''}
+            ${components.map((item) => renderDeclaration(item.name, item.type, item.description)).join('\n')}
 
-            ${components
-                .map((item) => {
-                    const exportType = item.type.kind === 'object' ? 'interface' : 'type'
-                    const equals = exportType === 'type' ? ' =' : ''
-                    return `
-            ${item.description ? `/** ${cleanDescription(item.description)} */` : ''}
-            export ${exportType} ${item.name}${equals} ${renderTypeWithComment(item.type)}`
-                })
-                .join('\n')}
+            ${zod ? renderZodComponents(components) : ''}
         }
+
+        ${shared ? renderSharedComponents(shared, zod) : ''}
     }
     
     ${components.map((item) => `export type ${item.name} = Components.Schemas.${item.name}`).join('\n')}
@@ -165,6 +586,103 @@ const toSafeName = (name: string): string => {
     return name.replace(/[^a-zA-Z0-9_]/g, '_')
 }
 
+/** Replaces the discriminator property of an inline union member with its literal tag values */
+const narrowTag = (node: Extract<TypeNode, { kind: 'object' }>, propertyName: string, values: string[]): TypeNode => ({
+    ...node,
+    properties: { ...node.properties, [propertyName]: union(values.map(literal)) },
+    required: node.required.includes(propertyName) ? node.required : [...node.required, propertyName],
+})
+
+const ZOD_STRING_FORMATS: Record<string, string> = {
+    email: 'z.email()',
+    uuid: 'z.uuid()',
+    uri: 'z.url()',
+    url: 'z.url()',
+    hostname: 'z.hostname()',
+    ipv4: 'z.ipv4()',
+    ipv6: 'z.ipv6()',
+    byte: 'z.base64()',
+    date: 'z.iso.date()',
+    'date-time': 'z.iso.datetime({ offset: true })',
+}
+
+/** Runtime types a `format` can be mapped to */
+export const FORMAT_TARGETS: Record<string, (format: string) => FormatType> = {
+    Date: () => ({ ts: 'Date', zod: 'z.coerce.date()' }),
+    bigint: () => ({ ts: 'bigint', zod: 'z.coerce.bigint()' }),
+    Blob: () => ({ ts: 'Blob', zod: 'z.instanceof(Blob)' }),
+    Branded: (format) => {
+        const ts = `Branded<string, ${JSON.stringify(format)}>`
+        return { ts, zod: `${ZOD_STRING_FORMATS[format] ?? 'z.string()'}.transform((value) => value as ${ts})` }
+    },
+}
+
+export const DEFAULT_FORMAT_TYPES = 'date-time=Date,date=Date,int64=bigint,binary=Blob,uuid=Branded'
+
+/** Parses `<format>=<target>` pairs, e.g. `date-time=Date,int64=bigint`. `default` selects DEFAULT_FORMAT_TYPES */
+export const resolveFormatTypes = (value: string): Record<string, FormatType> => {
+    const pairs = (value === 'default' ? DEFAULT_FORMAT_TYPES : value).split(',').filter((pair) => pair.trim())
+    return Object.fromEntries(
+        pairs.map((pair) => {
+            const [format, target] = pair.split('=').map((part) => part.trim())
+            const resolve = FORMAT_TARGETS[target]
+            if (!format || !resolve) {
+                throw new Error(
+                    `Invalid format type "${pair}", expected <format>=<${Object.keys(FORMAT_TARGETS).join('|')}>`,
+                )
+            }
+            return [format, resolve(format)]
+        }),
+    )
+}
+
+const ENUM_STYLES: EnumStyle[] = ['union', 'enum', 'const']
+
+export const resolveEnumStyle = (value: string): EnumStyle => {
+    if (!ENUM_STYLES.includes(value as EnumStyle)) {
+        throw new Error(`Invalid enum style "${value}", expected ${ENUM_STYLES.join('|')}`)
+    }
+    return value as EnumStyle
+}
+
+/** Validation keywords as Zod checks, `exclusiveMinimum`/`exclusiveMaximum` are booleans in OAS 3.0 and numbers in 3.1 */
+const withConstraints = (expr: string, node: TypeNode): string => {
+    const c = node.constraints
+    if (!c) return expr
+    const checks: string[] = []
+    if (node.kind === 'identifier' && node.name === 'string') {
+        if (c.minLength !== undefined) checks.push(`.min(${c.minLength})`)
+        if (c.maxLength !== undefined) checks.push(`.max(${c.maxLength})`)
+        if (c.pattern !== undefined) checks.push(`.regex(new RegExp(${JSON.stringify(c.pattern)}))`)
+    }
+    if (node.kind === 'identifier' && node.name === 'number') {
+        if (c.integer) checks.push('.int()')
+        if (c.minimum !== undefined)
+            checks.push(c.exclusiveMinimum === true ? `.gt(${c.minimum})` : `.min(${c.minimum})`)
+        if (typeof c.exclusiveMinimum === 'number') checks.push(`.gt(${c.exclusiveMinimum})`)
+        if (c.maximum !== undefined)
+            checks.push(c.exclusiveMaximum === true ? `.lt(${c.maximum})` : `.max(${c.maximum})`)
+        if (typeof c.exclusiveMaximum === 'number') checks.push(`.lt(${c.exclusiveMaximum})`)
+        if (c.multipleOf !== undefined) checks.push(`.multipleOf(${c.multipleOf})`)
+    }
+    if (node.kind === 'array') {
+        if (c.minItems !== undefined) checks.push(`.min(${c.minItems})`)
+        if (c.maxItems !== undefined) checks.push(`.max(${c.maxItems})`)
+        if (c.uniqueItems) {
+            checks.push(
+                `.refine((items) => new Set(items.map((item) => JSON.stringify(item))).size === items.length, { message: 'Items must be unique' })`,
+            )
+        }
+    }
+    return `${expr}${checks.join('')}`
+}
+
+/** Constraint lines for JSDoc, e.g. `@format email` or `@maxLength 64` */
+const describeConstraints = (constraints?: Constraints): string[] =>
+    Object.entries(constraints ?? {})
+        .filter(([key]) => key !== 'integer')
+        .map(([key, value]) => `@${key} ${String(value).replace(/\*\//g, '*\\/')}`)
+
 const withNullish = (expr: string, node: TypeNode): string => {
     let suffix = ''
     if (node.nullable) suffix += '.nullable()'
@@ -172,11 +690,19 @@ const withNullish = (expr: string, node: TypeNode): string => {
 }
 
 export const renderZod = (node: TypeNode, processing: Set<string> = new Set()): string => {
+    if (node.zod) return withNullish(node.zod, node)
+
     switch (node.kind) {
         case 'identifier': {
             // primitive types
-            if (['string', 'number', 'boolean'].includes(node.name!)) {
-                return withNullish(`z.${node.name}()`, node)
+            if (PRIMITIVE_TYPES.includes(node.name!)) {
+                const format = node.name === 'string' && node.constraints?.format
+                const base = (format && ZOD_STRING_FORMATS[format]) || `z.${node.name}()`
+                return withNullish(withConstraints(base, node), node)
+            }
+
+            if (INSTANCE_TYPES.includes(node.name)) {
+                return withNullish(`z.instanceof(${node.name})`, node)
             }
 
             // generic record
@@ -199,10 +725,35 @@ export const renderZod = (node: TypeNode, processing: Set<string> = new Set()):
 
         case 'array': {
             const element = renderZod(node.element!, processing)
-            return withNullish(`z.array(${element})`, node)
+            return withNullish(withConstraints(`z.array(${element})`, node), node)
+        }
+
+        case 'tuple': {
+            const elements = node.elements.map((e) => renderZod(e, processing)).join(', ')
+            const rest = node.rest ? `, ${renderZod(node.rest, processing)}` : ''
+            return withNullish(`z.tuple([${elements}]${rest})`, node)
         }
 
         case 'union': {
+            if (node.enum?.members.every((m) => typeof m.value === 'string')) {
+                return withNullish(
+                    `z.enum([${node.enum.members.map((m) => JSON.stringify(m.value)).join(', ')}])`,
+                    node,
+                )
+            }
+            if (node.discriminator) {
+                const { propertyName, values } = node.discriminator
+                const options = node.types.map((t, i) => {
+                    if (t.kind === 'object') return renderZod(narrowTag(t, propertyName, values[i]), processing)
+                    // the tag is checked up front, unknown keys are passed through to the member schema
+                    const tag = values[i].length === 1 ? JSON.stringify(values[i][0]) : JSON.stringify(values[i])
+                    const tagType = values[i].map((v) => JSON.stringify(v)).join(' | ')
+                    const memberType = `${renderType(t)} & { ${safeParamName(propertyName)}: ${tagType} }`
+                    const member = `${renderZod(t, processing)} as z.ZodType<${memberType}, any>`
+                    return `z.looseObject({ "${propertyName}": z.literal(${tag}) }).pipe(${member})`
+                })
+                return withNullish(`z.discriminatedUnion("${propertyName}", [${options.join(', ')}])`, node)
+            }
             const expr =
                 node.types.length === 1
                     ? renderZod(node.types[0], processing)
@@ -228,7 +779,13 @@ export const renderZod = (node: TypeNode, processing: Set<string> = new Set()):
                     return `"${key}": ${isRequired ? rendered : `${rendered}.optional()`}`
                 })
                 .join(', ')
-            return withNullish(`z.object({ ${props} })`, node)
+            const additional =
+                node.additionalProperties === false
+                    ? '.strict()'
+                    : node.additionalProperties
+                      ? `.catchall(${renderZod(node.additionalProperties, processing)})`
+                      : ''
+            return withNullish(`z.object({ ${props} })${additional}`, node)
         }
 
         case 'generic': {
@@ -253,39 +810,330 @@ export const renderZod = (node: TypeNode, processing: Set<string> = new Set()):
     }
 }
 
+const normalizeZod = (schemaStr: string): string =>
+    schemaStr
+        .replace(/(?:\.optional\(\)\s*\.nullable\(\)|\.nullable\(\)\s*\.optional\(\))/g, '.nullish()')
+        .replace(/(\.nullish\(\)){2,}/g, '.nullish()')
+
+/** Types directly nested in a type */
+const childTypes = (node: TypeNode): TypeNode[] => {
+    switch (node.kind) {
+        case 'array':
+            return [node.element]
+        case 'tuple':
+            return [...node.elements, ...(node.rest ? [node.rest] : [])]
+        case 'union':
+        case 'intersection':
+            return node.types
+        case 'generic':
+            return [node.base, ...node.params]
+        case 'object':
+            return [
+                ...Object.values(node.properties),
+                ...(node.additionalProperties ? [node.additionalProperties] : []),
+            ]
+        default:
+            return []
+    }
+}
+
+/** Copy of a type with the directly nested types mapped, properties along with their key */
+const mapChildTypes = (node: TypeNode, map: (child: TypeNode, key?: string) => TypeNode): TypeNode => {
+    switch (node.kind) {
+        case 'array':
+            return { ...node, element: map(node.element) }
+        case 'tuple':
+            return {
+                ...node,
+                elements: node.elements.map((e) => map(e)),
+                ...(node.rest ? { rest: map(node.rest) } : {}),
+            }
+        case 'union':
+        case 'intersection':
+            return { ...node, types: node.types.map((t) => map(t)) }
+        case 'generic':
+            return { ...node, base: map(node.base), params: node.params.map((p) => map(p)) }
+        case 'object':
+            return {
+                ...node,
+                properties: Object.fromEntries(Object.entries(node.properties).map(([key, p]) => [key, map(p, key)])),
+                ...(node.additionalProperties ? { additionalProperties: map(node.additionalProperties) } : {}),
+            }
+        default:
+            return node
+    }
+}
+
+const forEachTypeNode = (node: TypeNode, visit: (node: TypeNode) => void): void => {
+    visit(node)
+    childTypes(node).forEach((child) => forEachTypeNode(child, visit))
+}
+
+/** Names of the components referenced by a type */
+export const collectRefs = (node: TypeNode): Set<string> => {
+    const refs = new Set<string>()
+    forEachTypeNode(node, (n) => {
+        if (n.kind === 'identifier' && n.name.startsWith('Components.Schemas.')) refs.add(n.name.split('.').pop()!)
+    })
+    return refs
+}
+
+type Access = 'request' | 'response'
+
+const hasAccessProperties = (node: TypeNode): boolean => {
+    let found = false
+    forEachTypeNode(node, (n) => {
+        if (n.kind === 'object' && Object.values(n.properties).some((p) => p.readOnly || p.writeOnly)) found = true
+    })
+    return found
+}
+
+/**
+ * Request variant names of the components with readOnly or writeOnly properties and of those
+ * referring to one, e.g. `User` -> `UserInput`
+ */
+const inputVariants = (components: ComponentIR[]): Map<string, string> => {
+    const refs = new Map(components.map((c) => [c.name, collectRefs(c.type)]))
+    const split = new Set(components.filter((c) => hasAccessProperties(c.type)).map((c) => c.name))
+    for (let changed = true; changed; ) {
+        changed = false
+        for (const [name, names] of refs) {
+            if (split.has(name) || ![...names].some((ref) => split.has(ref))) continue
+            split.add(name)
+            changed = true
+        }
+    }
+    const taken = new Set(components.map((c) => c.name))
+    const variants = new Map<string, string>()
+    for (const name of components.map((c) => c.name).filter((name) => split.has(name))) {
+        let input = `${name}Input`
+        for (let i = 2; taken.has(input); i++) input = `${name}Input${i}`
+        taken.add(input)
+        variants.set(name, input)
+    }
+    return variants
+}
+
+/**
+ * Leaves out the readOnly properties of request types and the writeOnly properties of response
+ * types. Request types refer to the request variants of components.
+ */
+const forAccess = (node: TypeNode, access: Access, variants: Map<string, string>): TypeNode => {
+    const hidden = access === 'request' ? 'readOnly' : 'writeOnly'
+    const visit = (n: TypeNode): TypeNode => {
+        switch (n.kind) {
+            case 'identifier': {
+                const input = n.name.startsWith('Components.Schemas.') && variants.get(n.name.split('.').pop()!)
+                return access === 'request' && input ? { ...n, name: `Components.Schemas.${input}` } : n
+            }
+            case 'array':
+                return { ...n, element: visit(n.element) }
+            case 'tuple':
+                return { ...n, elements: n.elements.map(visit), ...(n.rest ? { rest: visit(n.rest) } : {}) }
+            case 'union':
+            case 'intersection':
+                return { ...n, types: n.types.map(visit) }
+            case 'generic':
+                return { ...n, base: visit(n.base), params: n.params.map(visit) }
+            case 'object': {
+                const keys = Object.keys(n.properties).filter((key) => !n.properties[key][hidden])
+                return {
+                    ...n,
+                    properties: Object.fromEntries(keys.map((key) => [key, visit(n.properties[key])])),
+                    required: n.required.filter((key) => keys.includes(key)),
+                    ...(n.additionalProperties ? { additionalProperties: visit(n.additionalProperties) } : {}),
+                }
+            }
+            default:
+                return n
+        }
+    }
+    return visit(node)
+}
+
+const operationTypes = (op: OperationIR): TypeNode[] => [
+    ...Object.values(op.parameters).flatMap((params) => params.map((p) => p.typeNode)),
+    ...(op.requestBody ? [op.requestBody.type, ...op.requestBody.media.map((m) => m.type)] : []),
+    ...Object.values(op.responses).flatMap((resp) => (resp.type ? [resp.type] : [])),
+]
+
+/** Import statements of the user defined types, Zod schemas are only imported with `zod` */
+export const renderImports = (components: ComponentIR[], operations: OperationIR[], zod: boolean): string => {
+    const byModule = new Map<string, Map<string, ImportIR>>()
+    const nodes = [...components.map((c) => c.type), ...operations.flatMap(operationTypes)]
+    nodes.forEach((node) =>
+        forEachTypeNode(node, (n) => {
+            for (const imp of n.imports ?? []) {
+                if (!imp.typeOnly && !zod) continue
+                const key = `${imp.typeOnly ? 'type ' : ''}${imp.from}`
+                if (!byModule.has(key)) byModule.set(key, new Map())
+                byModule.get(key)!.set(imp.alias ?? imp.name, imp)
+            }
+        }),
+    )
+    return [...byModule.values()]
+        .map((imports) => {
+            const [{ from, typeOnly }] = [...imports.values()]
+            const names = [...imports.values()].map((imp) => (imp.alias ? `${imp.name} as ${imp.alias}` : imp.name))
+            return `import ${typeOnly ? 'type ' : ''}{ ${names.join(', ')} } from '${from}'`
+        })
+        .join('\n')
+}
+
+/** Orders components so that references point to already defined schemas, only cycles are left to z.lazy */
+const sortComponents = (components: ComponentIR[]): ComponentIR[] => {
+    const byName = new Map(components.map((c) => [c.name, c]))
+    const sorted: ComponentIR[] = []
+    const visited = new Set<string>()
+    const visit = (component: ComponentIR) => {
+        if (visited.has(component.name)) return
+        visited.add(component.name)
+        for (const ref of collectRefs(component.type)) {
+            const dependency = byName.get(ref)
+            if (dependency) visit(dependency)
+        }
+        sorted.push(component)
+    }
+    components.forEach(visit)
+    return sorted
+}
+
 export const renderZodComponents = (components: ComponentIR[]): string => {
-    const processing = new Set<string>(components.map((c) => c.name))
-    return components
+    const sorted = sortComponents(components)
+    // schemas not defined yet at the point of reference
+    const pending = new Set<string>(sorted.map((c) => c.name))
+    return sorted
         .map((item) => {
-            const schemaStr = renderZod(item.type, processing)
-                .replace(/(?:\.optional\(\)\s*\.nullable\(\)|\.nullable\(\)\s*\.optional\(\))/g, '.nullish()')
-                .replace(/(\.nullish\(\)){2,}/g, '.nullish()')
-            return `export const ${item.name}Schema: z.ZodType<any> = ${schemaStr};`
+            const schemaStr = renderNamedZod(`Components.Schemas.${item.name}`, item.type, pending)
+            pending.delete(item.name)
+            return `export const ${item.name}Schema: z.ZodType<Components.Schemas.${item.name}> = ${schemaStr};`
         })
         .join('\n\n')
 }
 
-export const renderZodOperationMappings = (operations: OperationIR[]): string => {
+/** The type a `Components.Schemas` reference stands for, following references between components */
+const resolveComponentType = (node: TypeNode, components: ComponentIR[], seen = new Set<string>()): TypeNode => {
+    if (node.kind !== 'identifier' || !node.name.startsWith('Components.Schemas.')) return node
+    const name = node.name.slice('Components.Schemas.'.length)
+    const component = components.find((c) => c.name === name)
+    if (!component || seen.has(name)) return node
+    return resolveComponentType(component.type, components, seen.add(name))
+}
+
+const isNumeric = (node: TypeNode): boolean =>
+    (node.kind === 'identifier' && node.name === 'number') ||
+    (node.kind === 'union' && node.types.every((t) => t.kind === 'literal' && typeof t.value === 'number'))
+
+const isBoolean = (node: TypeNode): boolean => node.kind === 'identifier' && node.name === 'boolean'
+
+/**
+ * Coerces wire values of path, query and header parameters, which always arrive as strings, also
+ * when the schema is a component. Arrays also accept a single value, which Express and Fastify parse
+ * as a string, e.g. `?tags=a`, and header and cookie arrays are split on commas (style `simple`).
+ */
+const renderZodParam = (node: TypeNode, components: ComponentIR[], split = false): string => {
+    const target = resolveComponentType(node, components)
+    if (target !== node) {
+        // the component schema checks the coerced value, its input type is unknown
+        const schema = `${renderZod(node)} as z.ZodType<${renderType(node)}, any>`
+        if (isNumeric(target)) return `z.coerce.number().pipe(${schema})`
+        if (isBoolean(target)) return `z.stringbool().pipe(${schema})`
+        if (target.kind === 'array') return renderZodParam(target, components, split)
+        return renderZod(node)
+    }
+    if (node.kind === 'identifier' && node.name === 'number') {
+        return withNullish(withConstraints('z.coerce.number()', node), node)
+    }
+    if (isNumeric(node)) return withNullish(`z.coerce.number().pipe(${renderZod({ ...node, nullable: false })})`, node)
+    if (isBoolean(node)) return withNullish('z.stringbool()', node)
+    if (node.kind === 'array') {
+        const array = `z.array(${renderZodParam(node.element, components)})`
+        const toArray = split
+            ? "(v) => (typeof v === 'string' ? v.split(',').map((item) => item.trim()) : v)"
+            : '(v) => (v === undefined || Array.isArray(v) ? v : [v])'
+        return withNullish(`z.preprocess(${toArray}, ${array})`, node)
+    }
+    return renderZod(node)
+}
+
+/** Header names are lower cased as in Node's `IncomingMessage.headers` */
+const renderZodParams = (params: TypedParam[], location: string, components: ComponentIR[]): string => {
+    const props = params.map((p) => {
+        const name = location === 'header' ? p.param.name.toLowerCase() : p.param.name
+        const rendered = renderZodParam(p.typeNode, components, location === 'header' || location === 'cookie')
+        return `"${name}": ${p.param.required ? rendered : `${rendered}.optional()`}`
+    })
+    return `z.object({ ${props.join(', ')} })`
+}
+
+const renderZodResponse = (node?: TypeNode): string => (node ? normalizeZod(renderZod(node)) : 'z.undefined()')
+
+export const renderZodOperationMappings = (operations: OperationIR[], components: ComponentIR[] = []): string => {
     const lines: string[] = []
     lines.push(`export const apiResponseValidators = {`)
 
     for (const op of operations) {
-        // Find first successful (2xx) response
-        const successResponse = Object.entries(op.responses).find(([status]) => status.startsWith('2'))
-        let responseSchemaName: string | undefined
-        if (successResponse) {
-            const resp = successResponse[1]
-            const media = Object.values(resp.content || {})[0] as MediaType | undefined
-            const schema = media?.schema
-            if (schema && isSchemaRef(schema)) {
-                responseSchemaName = toSafeName(schema.$ref.split('/').pop()!)
-            }
+        // union of the successful (2xx) responses with content
+        const schemas = successStatuses(op)
+            .map((status) => namedResponseType(op, status))
+            .filter((node): node is TypeNode => !!node)
+        const deduped = Array.from(new Map(schemas.map((tn) => [renderType(tn), tn])).values())
+        if (deduped.length) {
+            lines.push(`${op.id}: ${normalizeZod(renderZod(union(deduped)))},`)
         }
+    }
+
+    lines.push(`} as const`)
+    lines.push('')
+    lines.push(`export const apiResponseValidatorsByStatus = {`)
+
+    for (const op of operations) {
+        const statuses = Object.entries(op.responses)
+        if (!statuses.length) continue
+        const entries = statuses.map(([status]) => `"${status}": ${renderZodResponse(namedResponseType(op, status))},`)
+        lines.push(`${op.id}: {\n${entries.join('\n')}\n},`)
+    }
+
+    lines.push(`} as const`)
+    lines.push('')
+    // header names are lower cased as in fetch and Node.js
+    lines.push(`export const apiResponseHeaderValidators = {`)
 
-        const responseSchemaStr = responseSchemaName ? `Components.Schemas.${responseSchemaName}Schema` : undefined
-        if (responseSchemaStr) {
-            lines.push(`${op.id}: ${responseSchemaStr},`)
+    for (const op of operations) {
+        const entries = Object.entries(op.responses)
+            .filter(([, resp]) => resp.typedHeaders?.length)
+            .map(([status, resp]) => `"${status}": ${renderZodParams(resp.typedHeaders!, 'header', components)},`)
+        if (entries.length) lines.push(`${op.id}: {\n${entries.join('\n')}\n},`)
+    }
+
+    lines.push(`} as const`)
+    lines.push('')
+    // header names are lower cased as in incoming Node.js requests
+    lines.push(`export const apiRequestValidators = {`)
+
+    for (const op of operations) {
+        const entries: string[] = []
+        if (op.parameters.path.length) entries.push(`path: ${renderZodParams(op.parameters.path, 'path', components)},`)
+        if (op.parameters.query.length)
+            entries.push(`query: ${renderZodParams(op.parameters.query, 'query', components)},`)
+        if (op.parameters.header.length)
+            entries.push(`header: ${renderZodParams(op.parameters.header, 'header', components)},`)
+        if (op.parameters.cookie.length)
+            entries.push(`cookie: ${renderZodParams(op.parameters.cookie, 'cookie', components)},`)
+        if (op.requestBody) {
+            const optional = (schema: string) => (op.requestBody!.required ? schema : `${schema}.optional()`)
+            const media = namedRequestBodyTypes(op)
+            const deduped = Array.from(new Map(media.map(({ type }) => [renderType(type), type])).values())
+            entries.push(`body: ${optional(normalizeZod(renderZod(union(deduped))))},`)
+            // validateRequest picks the schema of the content type, `body` accepts any of them
+            if (media.length > 1) {
+                const schemas = media.map(
+                    ({ contentType, type }) => `"${contentType}": ${optional(normalizeZod(renderZod(type)))},`,
+                )
+                entries.push(`bodyByContentType: {\n${schemas.join('\n')}\n},`)
+            }
         }
+        if (entries.length) lines.push(`${op.id}: {\n${entries.join('\n')}\n},`)
     }
 
     lines.push(`} as const`)
@@ -300,16 +1148,294 @@ const sanitizeMime = (mime: string) => {
     return mime
 }
 
-export const renderPaths = (operations: OperationIR[]) => {
+/** Union of the response's media type schemas, undefined for responses without content */
+const responseTypeNode = (
+    resp: OpenAPIResponse,
+    options: SchemaMappingOptions,
+    variants: Map<string, string>,
+): TypeNode | undefined => {
+    if (!resp.content) return undefined
+
+    const typeNodes = Object.values(resp.content).map((media) =>
+        media.schema
+            ? forAccess(mapSchemaNode(media.schema, [], options), 'response', variants)
+            : ({ kind: 'identifier', name: 'unknown' } satisfies TypeNode),
+    )
+
+    const deduped = Array.from(new Map(typeNodes.map((tn) => [renderType(tn), tn])).values())
+    return union(deduped)
+}
+
+/** Inline object or enum type given a name, the types hoisted out of it are in the namespace of the same name */
+type NamedTypeIR = { name: string; type: TypeNode; nested: NamedTypeIR[] }
+
+const isEnumNode = (node: TypeNode): boolean =>
+    node.kind === 'union' && node.types.length > 1 && node.types.every((t) => t.kind === 'literal')
+
+/** e.g. `shipping_address` -> `ShippingAddress` */
+const typeNameOf = (key: string): string => {
+    const name = toSafeName(upperFirst(camelCase(key)))
+    return /^\d/.test(name) ? `_${name}` : name || 'Property'
+}
+
+/**
+ * Replaces the inline objects and enums nested in a type with references to types named after their
+ * place in the namespace `scope`, e.g. the array items of `Paths.GetOrder.Responses.$200` become
+ * `Paths.GetOrder.Responses.$200.Items`. Properties are named after their key, array items and record
+ * values after their parent or `Items` and `Values` at the top, and nested union members are numbered.
+ */
+const hoistInlineTypes = (node: TypeNode, scope: string): { type: TypeNode; named: NamedTypeIR[] } => {
+    const named: NamedTypeIR[] = []
+    // the Zod schemas of the named types are declared next to them
+    const taken = new Set<string>()
+    const visit = (n: TypeNode, name: string): TypeNode => {
+        if (name && (n.kind === 'object' || isEnumNode(n))) {
+            let unique = name
+            for (let i = 2; taken.has(unique) || taken.has(`${unique}Schema`); i++) unique = `${name}${i}`
+            taken.add(unique).add(`${unique}Schema`)
+            // nullable is up to the place of use
+            const { nullable, ...type } = n
+            const hoisted = hoistInlineTypes(type, `${scope}.${unique}`)
+            named.push({ name: unique, type: hoisted.type, nested: hoisted.named })
+            const ref: TypeNode = { kind: 'identifier', name: `${scope}.${unique}` }
+            return { ...ref, description: n.description, example: n.example, ...(nullable ? { nullable } : {}) }
+        }
+        // members of a union at the top are named like the top itself, e.g. `{ ... } | FormData`
+        const members = (types: TypeNode[]) =>
+            types.map((t, i) => visit(t, types.length === 1 || !name ? name : `${name}${i + 1}`))
+        switch (n.kind) {
+            case 'array':
+                return { ...n, element: visit(n.element, name || 'Items') }
+            case 'tuple':
+                return {
+                    ...n,
+                    elements: n.elements.map((e, i) => visit(e, `${name || 'Element'}${i + 1}`)),
+                    ...(n.rest ? { rest: visit(n.rest, name || 'Items') } : {}),
+                }
+            case 'union':
+            case 'intersection':
+                return { ...n, types: members(n.types) }
+            case 'generic':
+                return { ...n, params: n.params.map((p) => visit(p, name || 'Values')) }
+            case 'object':
+                return {
+                    ...n,
+                    properties: Object.fromEntries(
+                        Object.entries(n.properties).map(([key, p]) => [key, visit(p, typeNameOf(key))]),
+                    ),
+                    ...(n.additionalProperties
+                        ? { additionalProperties: visit(n.additionalProperties, 'Values') }
+                        : {}),
+                }
+            default:
+                return n
+        }
+    }
+    return { type: visit(node, ''), named }
+}
+
+/** Named types along with their Zod schemas, the types hoisted out of a type in its namespace */
+const renderNamedTypes = (named: NamedTypeIR[], scope: string, zod: boolean): string =>
+    named
+        .map(({ name, type, nested }) => {
+            const schema = `export const ${name}Schema: z.ZodType<${scope}.${name}> = ${renderNamedZod(`${scope}.${name}`, type)};`
+            return [renderDeclaration(name, type, type.description), renderNamespace(name, nested, scope, zod)]
+                .concat(zod ? [schema] : [])
+                .join('\n')
+        })
+        .join('\n')
+
+const renderNamespace = (name: string, named: NamedTypeIR[], scope: string, zod: boolean): string =>
+    named.length ? `export namespace ${name} {\n${renderNamedTypes(named, `${scope}.${name}`, zod)}\n}` : ''
+
+/**
+ * The body type is the union of the per media type types in the namespace of the same name, e.g.
+ * `Paths.CreatePet.RequestBody.Json`
+ */
+const renderRequestBodyType = (name: string, { media }: RequestBodyIR, scope: string, zod: boolean): string => {
+    const renderMedia = (m: RequestBodyMediaIR) => {
+        const { type, named } = hoistInlineTypes(m.type, `${scope}.${name}.${m.name}`)
+        return `/** ${sanitizeMime(m.contentType)} */
+        export type ${m.name} = ${renderType(type)};
+        ${renderNamespace(m.name, named, `${scope}.${name}`, zod)}`
+    }
+    return `export type ${name} = ${media.map((m) => `${name}.${m.name}`).join(' | ')};
+
+    export namespace ${name} {
+        ${media.map(renderMedia).join('\n')}
+    }`
+}
+
+const renderRequestBody = (op: OperationIR, zod: boolean): string => {
+    if (!op.requestBody) return 'export type RequestBody = undefined;'
+    if (!op.requestBody.ref) return renderRequestBodyType('RequestBody', op.requestBody, operationScope(op), zod)
+    const shared = `Components.RequestBodies.${op.requestBody.ref}`
+    return `export type RequestBody = ${shared};
+
+    export namespace RequestBody {
+        ${op.requestBody.media.map((m) => `export type ${m.name} = ${shared}.${m.name};`).join('\n')}
+    }`
+}
+
+const renderResponseType = (name: string, resp: ResponseIR, scope: string, zod: boolean): string => {
+    if (!resp.type) return `export type ${name} = undefined;`
+    const mimes = Object.keys(resp.content!).map(sanitizeMime).join(', ')
+    const { type, named } = hoistInlineTypes(resp.type, `${scope}.${name}`)
+    return `/** ${mimes} */\nexport type ${name} = ${renderType(type)};\n${renderNamespace(name, named, scope, zod)}`
+}
+
+/** e.g. `Paths.GetPet` */
+const operationScope = (op: OperationIR) => `Paths.${upperFirst(op.id)}`
+
+/** e.g. `Paths.GetPet.Responses.Status` -> its type, along with the types hoisted out of it */
+const flattenNamedTypes = (named: NamedTypeIR[], scope: string): [name: string, type: TypeNode][] =>
+    named.flatMap(({ name, type, nested }) => [
+        [`${scope}.${name}`, type],
+        ...flattenNamedTypes(nested, `${scope}.${name}`),
+    ])
+
+/**
+ * Response type referring to the types hoisted out of it, which are listed by their full name,
+ * e.g. `Paths.GetPet.Responses.$200.Status`
+ */
+export const hoistedResponseType = (
+    op: OperationIR,
+    status: string,
+): { type: TypeNode; named: Map<string, TypeNode> } | undefined => {
+    const resp = op.responses[status]
+    if (!resp.type) return undefined
+    const name = resp.ref ? `Components.Responses.${resp.ref}` : `${operationScope(op)}.Responses.$${status}`
+    const { type, named } = hoistInlineTypes(resp.type, name)
+    return { type, named: new Map(flattenNamedTypes(named, name)) }
+}
+
+/** Response type referring to the types hoisted out of it, e.g. for validating it with their Zod schemas */
+const namedResponseType = (op: OperationIR, status: string): TypeNode | undefined =>
+    hoistedResponseType(op, status)?.type
+
+/** Type per media type of the request body, referring to the types hoisted out of it */
+const namedRequestBodyTypes = (op: OperationIR): { contentType: string; type: TypeNode }[] => {
+    if (!op.requestBody) return []
+    const { ref, media } = op.requestBody
+    const name = ref ? `Components.RequestBodies.${ref}` : `${operationScope(op)}.RequestBody`
+    return media.map((m) => ({ contentType: m.contentType, type: hoistInlineTypes(m.type, `${name}.${m.name}`).type }))
+}
+
+/** Namespaces of the shared parameters, responses, request bodies and headers next to `Components.Schemas` */
+const renderSharedComponents = (shared: SharedComponentsIR, zod = false): string => {
+    const withDoc = (description: string | undefined, typing: string) =>
+        description ? `/** ${cleanDescription(description)} */\n${typing}` : typing
+    const sections: [string, string[]][] = [
+        [
+            'Parameters',
+            Object.entries(shared.parameters).map(([name, p]) =>
+                withDoc(p.param.description, `export type ${name} = ${renderType(p.typeNode)};`),
+            ),
+        ],
+        [
+            'Responses',
+            Object.entries(shared.responses).map(([name, resp]) =>
+                renderResponseType(name, resp, 'Components.Responses', zod),
+            ),
+        ],
+        [
+            'RequestBodies',
+            Object.entries(shared.requestBodies).map(([name, body]) =>
+                renderRequestBodyType(name, body, 'Components.RequestBodies', zod),
+            ),
+        ],
+        [
+            'Headers',
+            Object.entries(shared.headers).map(([name, node]) =>
+                withDoc(node.description, `export type ${name} = ${renderType(node)};`),
+            ),
+        ],
+    ]
+    return sections
+        .filter(([, types]) => types.length)
+        .map(([namespace, types]) => `export namespace ${namespace} {\n${types.join('\n')}\n}`)
+        .join('\n\n')
+}
+
+// registered HTTP status codes, used to expand range keys like 4XX
+const HTTP_STATUS_CODES = [
+    100, 101, 102, 103, 200, 201, 202, 203, 204, 205, 206, 207, 208, 226, 300, 301, 302, 303, 304, 305, 307, 308, 400,
+    401, 402, 403, 404, 405, 406, 407, 408, 409, 410, 411, 412, 413, 414, 415, 416, 417, 418, 421, 422, 423, 424, 425,
+    426, 428, 429, 431, 451, 500, 501, 502, 503, 504, 505, 506, 507, 508, 510, 511,
+]
+
+const isSuccessStatus = (status: string) => /^2(\d\d|XX)$/i.test(status)
+
+/** 2xx responses make up the promised type, `default` is used only when no success response is documented */
+export const successStatuses = (op: OperationIR): string[] => {
+    const statuses = Object.keys(op.responses)
+    const success = statuses.filter(isSuccessStatus)
+    if (success.length) return success
+    return statuses.includes('default') ? ['default'] : []
+}
+
+/**
+ * Literal status codes of a response, where ranges and `default` are the registered codes not
+ * documented otherwise, so that comparing the status narrows a result union to one member.
+ * A lone `default` response has any status. Unregistered codes, e.g. 499, are left out, as a
+ * `number` member would be kept by every comparison.
+ */
+const renderStatusCode = (status: string, explicit: string[]): string => {
+    if (status === 'default' && explicit.length === 1) return 'number'
+    const range = status.match(/^([1-5])XX$/i)
+    if (status !== 'default' && !range) return status
+    const documented = (code: string) =>
+        explicit.includes(code) || (status === 'default' && explicit.some((s) => s.toUpperCase() === `${code[0]}XX`))
+    const codes = HTTP_STATUS_CODES.map(String).filter((code) => (!range || code[0] === range[1]) && !documented(code))
+    return codes.length ? codes.join(' | ') : 'number'
+}
+
+/**
+ * Status discriminated union of every documented response, and the same with the typed
+ * response headers as resolved by the client's `withHeaders` methods
+ */
+const renderResult = (op: OperationIR): string => {
+    const statuses = Object.keys(op.responses)
+    if (!statuses.length) {
+        return `export type Result = { status: number; data: any };
+        export type ResultWithHeaders = { status: number; data: any; headers: {} };`
+    }
+    const member = (status: string, headers = '') =>
+        `{ status: ${renderStatusCode(status, statuses)}; data: Responses.$${status}${headers} }`
+    return `export type Result = ${statuses.map((status) => member(status)).join(' | ')};
+    export type ResultWithHeaders = ${statuses.map((status) => member(status, `; headers: Responses.Headers.$${status}`)).join(' | ')};`
+}
+
+/** `Responses.Headers.$<status>` interface per response */
+const renderResponseHeaders = (op: OperationIR): string => {
+    const statuses = Object.entries(op.responses)
+    if (!statuses.length) return ''
+    const renderHeader = (p: TypedParam) => {
+        const type = p.ref ? `Components.Headers.${p.ref}` : renderType(p.typeNode)
+        const doc = p.param.description ? `/** ${cleanDescription(p.param.description)} */\n` : ''
+        return `${doc}${safeParamName(p.param.name)}${p.param.required ? '' : '?'}: ${type};`
+    }
+    return `export namespace Headers {
+        ${statuses
+            .map(
+                ([status, resp]) =>
+                    `export interface $${status} {\n${(resp.typedHeaders ?? []).map(renderHeader).join('\n')}\n}`,
+            )
+            .join('\n')}
+    }`
+}
+
+export const renderPaths = (operations: OperationIR[], zod = false) => {
     const operationsString = operations
         .map((op) => {
             // helper to render a parameter safely
             const renderParam = (p: TypedParam) => {
+                const type = p.ref ? `Components.Parameters.${p.ref}` : renderType(p.typeNode)
                 if (isSafeParam(p.typeName)) {
-                    return `export type ${p.typeName} = ${renderType(p.typeNode)};`
+                    return `export type ${p.typeName} = ${type};`
                 } else {
                     // fallback: inline object with original param name
-                    return `export interface Param_${toSafeName(p.typeName)} {\n    "${p.param.name}": ${renderType(p.typeNode)};\n}`
+                    return `export interface Param_${toSafeName(p.typeName)} {\n    "${p.param.name}": ${type};\n}`
                 }
             }
             const mapFn = (p: TypedParam) => {
@@ -326,12 +1452,18 @@ export const renderPaths = (operations: OperationIR[]) => {
 
             const queryParamsLines = op.parameters.query.map(mapFn).join('\n')
 
+            const headerParamsLines = op.parameters.header.map(mapFn).join('\n')
+
+            const cookieParamsLines = op.parameters.cookie.map(mapFn).join('\n')
+
             return `
             export namespace ${upperFirst(op.id)} {
-                export type RequestBody = ${op.requestBody ? renderType(op.requestBody.type) : 'undefined'};
+                ${renderRequestBody(op, zod)}
 
                 export namespace Parameters {
-                    ${[...op.parameters.path, ...op.parameters.query].map(renderParam).join('\n')}
+                    ${[...op.parameters.path, ...op.parameters.query, ...op.parameters.header, ...op.parameters.cookie]
+                        .map(renderParam)
+                        .join('\n')}
                 }
 
                 export interface PathParameters {
@@ -342,31 +1474,27 @@ export const renderPaths = (operations: OperationIR[]) => {
                     ${queryParamsLines}
                 }
 
-                export namespace Responses {
-                    ${Object.entries(op.responses)
-                        .map(([status, resp]) => {
-                            if (!resp.content) {
-                                return `export type $${status} = undefined;`
-                            }
-
-                            const entries = Object.entries(resp.content)
-
-                            const typeNodes = entries.map(([_, media]) =>
-                                media.schema
-                                    ? mapSchemaToTypeNode(media.schema)
-                                    : ({ kind: 'identifier', name: 'unknown' } satisfies TypeNode),
-                            )
-
-                            const deduped = Array.from(new Map(typeNodes.map((tn) => [renderType(tn), tn])).values())
-
-                            const tsType = renderType(union(deduped))
+                export interface HeaderParameters {
+                    ${headerParamsLines}
+                }
 
-                            const mimes = entries.map(([mime]) => sanitizeMime(mime)).join(', ')
+                export interface CookieParameters {
+                    ${cookieParamsLines}
+                }
 
-                            return `/** ${mimes} */\nexport type $${status} = ${tsType};`
-                        })
+                export namespace Responses {
+                    ${Object.entries(op.responses)
+                        .map(([status, resp]) =>
+                            resp.ref
+                                ? `export type $${status} = Components.Responses.${resp.ref};`
+                                : renderResponseType(`$${status}`, resp, `${operationScope(op)}.Responses`, zod),
+                        )
                         .join('\n')}
+
+                    ${renderResponseHeaders(op)}
                 }
+
+                ${renderResult(op)}
             }`
         })
         .join('\n')
@@ -376,6 +1504,41 @@ export const renderPaths = (operations: OperationIR[]) => {
             }`
 }
 
+/** The parameter interfaces of an operation, e.g. `Paths.GetPet.PathParameters` */
+export const parameterTypes = (op: OperationIR): string[] => {
+    const operationName = upperFirst(op.id)
+    const paramsTypeParts: string[] = []
+    if (op.parameters.path.length) paramsTypeParts.push(`Paths.${operationName}.PathParameters`)
+    if (op.parameters.query.length) paramsTypeParts.push(`Paths.${operationName}.QueryParameters`)
+    if (op.parameters.header.length) paramsTypeParts.push(`Paths.${operationName}.HeaderParameters`)
+    if (op.parameters.cookie.length) paramsTypeParts.push(`Paths.${operationName}.CookieParameters`)
+    return paramsTypeParts
+}
+
+/** e.g. `(parameters, data, config) => OperationResponse<Paths.GetPet.Responses.$200>`, with another response type if given */
+export const renderMethodSignature = (op: OperationIR, response?: string): string => {
+    const operationName = upperFirst(op.id)
+    const paramsTypeParts = parameterTypes(op)
+
+    const paramsType = paramsTypeParts.length > 0 ? `Parameters<${paramsTypeParts.join(' & ')}>` : 'null | undefined'
+    // mandatory headers and cookies can't be left out, so the parameters object becomes required
+    const paramsRequired = [...op.parameters.header, ...op.parameters.cookie].some((p) => p.param.required)
+    const dataRequired = !!op.requestBody?.required
+    const reqBody = op.requestBody ? `Paths.${operationName}.RequestBody` : 'undefined'
+    const success = successStatuses(op)
+    const mainResp = success.length
+        ? success.map((status) => `Paths.${operationName}.Responses.$${status}`).join(' | ')
+        : 'any'
+
+    // a required body can't follow an optional argument, so parameters become required but skippable with null
+    const hasRequiredParam = Object.values(op.parameters).some((params) => params.some((p) => p.param.required))
+    const paramsOptional = !paramsRequired && !dataRequired
+    const paramsNullable = dataRequired && !hasRequiredParam && paramsType !== 'null | undefined'
+    const paramsArg = `parameters${paramsOptional ? '?' : ''}: ${paramsType}${paramsNullable ? ' | null | undefined' : ''}`
+
+    return `(${paramsArg}, data${dataRequired ? '' : '?'}: ${reqBody}, config?: AxiosRequestConfig) => ${response ?? `OperationResponse<${mainResp}>`}`
+}
+
 export const renderOperations = (operations: OperationIR[]) => {
     const renderWithComment = (op: OperationIR, typing: string) => {
         const parts = [op.summary, op.description].filter(Boolean).map(cleanDescription)
@@ -387,25 +1550,7 @@ export const renderOperations = (operations: OperationIR[]) => {
 
     return `
         export interface OperationMethods {
-        ${operations
-            .map((op) => {
-                const operationName = upperFirst(op.id)
-                const paramsTypeParts: string[] = []
-                if (op.parameters.path.length) paramsTypeParts.push(`Paths.${operationName}.PathParameters`)
-                if (op.parameters.query.length) paramsTypeParts.push(`Paths.${operationName}.QueryParameters`)
-
-                const paramsType =
-                    paramsTypeParts.length > 0 ? `Parameters<${paramsTypeParts.join(' & ')}>` : 'null | undefined'
-                const reqBody = op.requestBody ? `Paths.${operationName}.RequestBody` : 'undefined'
-                const mainResp = Object.keys(op.responses)[0]
-                    ? `Paths.${operationName}.Responses.$${Object.keys(op.responses)[0]}`
-                    : 'any'
-                return renderWithComment(
-                    op,
-                    `${op.id}: (parameters?: ${paramsType}, data?: ${reqBody}, config?: AxiosRequestConfig) => OperationResponse<${mainResp}>;`,
-                )
-            })
-            .join('\n')}
+        ${operations.map((op) => renderWithComment(op, `${op.id}: ${renderMethodSignature(op)};`)).join('\n')}
         }
     `
 }
@@ -421,28 +1566,7 @@ export const renderPathsDictionary = (operations: OperationIR[]) => {
         export interface PathsDictionary {
         ${Object.entries(grouped)
             .map(([path, ops]) => {
-                const methodsStr = ops
-                    .map((op) => {
-                        const operationName = upperFirst(op.id)
-
-                        const paramsTypeParts: string[] = []
-                        if (op.parameters.path.length) paramsTypeParts.push(`Paths.${operationName}.PathParameters`)
-                        if (op.parameters.query.length) paramsTypeParts.push(`Paths.${operationName}.QueryParameters`)
-
-                        const paramsType =
-                            paramsTypeParts.length > 0
-                                ? `Parameters<${paramsTypeParts.join(' & ')}>`
-                                : 'null | undefined'
-
-                        const reqBody = op.requestBody ? `Paths.${operationName}.RequestBody` : 'undefined'
-
-                        const mainResp = Object.keys(op.responses)[0]
-                            ? `Paths.${operationName}.Responses.$${Object.keys(op.responses)[0]}`
-                            : 'any'
-
-                        return `  ${op.method}: (parameters?: ${paramsType}, data?: ${reqBody}, config?: AxiosRequestConfig) => OperationResponse<${mainResp}>;`
-                    })
-                    .join('\n')
+                const methodsStr = ops.map((op) => `  ${op.method}: ${renderMethodSignature(op)};`).join('\n')
 
                 return `  '${path}': {\n${methodsStr}\n  }`
             })
@@ -458,6 +1582,15 @@ export const renderTypeWithComment = (node: TypeNode): string => {
 }
 
 export const renderType = (node: TypeNode): string => {
+    const typeStr = renderTypeBody(node)
+    return node.nullable && typeStr !== 'null' ? `${typeStr} | null` : typeStr
+}
+
+/** Unions and nullable types are parenthesized, as `&` binds tighter than `|` */
+const renderIntersectionMember = (node: TypeNode): string =>
+    node.kind === 'union' || node.nullable ? `(${renderType(node)})` : renderType(node)
+
+const renderTypeBody = (node: TypeNode): string => {
     switch (node.kind) {
         case 'identifier':
             return node.name
@@ -465,15 +1598,31 @@ export const renderType = (node: TypeNode): string => {
             return JSON.stringify(node.value)
         case 'array': {
             const elem = renderType(node.element)
-            if (node.element.kind === 'union' || node.element.kind === 'intersection') {
+            if (node.element.kind === 'union' || node.element.kind === 'intersection' || node.element.nullable) {
                 return `(${elem})[]`
             }
             return `${elem}[]`
         }
-        case 'union':
+        case 'tuple': {
+            const elements = node.elements.map(renderType)
+            if (node.rest) elements.push(`...${renderType(arrayOf(node.rest))}`)
+            return `[${elements.join(', ')}]`
+        }
+        case 'union': {
+            if (node.discriminator) {
+                const { propertyName, values } = node.discriminator
+                return node.types
+                    .map((t, i) => {
+                        if (t.kind === 'object') return renderType(narrowTag(t, propertyName, values[i]))
+                        const tag = values[i].map((v) => JSON.stringify(v)).join(' | ')
+                        return `(${renderIntersectionMember(t)} & { ${safeParamName(propertyName)}: ${tag} })`
+                    })
+                    .join(' | ')
+            }
             return node.types.map(renderType).join(' | ')
+        }
         case 'intersection':
-            return node.types.map(renderType).join(' & ')
+            return node.types.map(renderIntersectionMember).join(' & ')
         case 'generic':
             return `${renderType(node.base)}<${node.params.map(renderType).join(', ')}>`
         case 'object': {
@@ -489,6 +1638,7 @@ export const renderType = (node: TypeNode): string => {
                     const example = typeof type.example === 'string' ? type.example : JSON.stringify(type.example)
                     lines.push(example)
                 }
+                lines.push(...describeConstraints(type.constraints))
                 if (lines.length) {
                     lines = [toComment(lines)]
                 }
@@ -498,61 +1648,241 @@ export const renderType = (node: TypeNode): string => {
                 return lines.join('\n')
             })
 
+            if (node.additionalProperties) {
+                // every named property must also satisfy the index signature
+                const valueTypes = [node.additionalProperties, ...Object.values(node.properties)].map(renderType)
+                if (Object.keys(node.properties).some((name) => !node.required?.includes(name))) {
+                    valueTypes.push('undefined')
+                }
+                const indexType = valueTypes.includes('any') ? 'any' : Array.from(new Set(valueTypes)).join(' | ')
+                props.push(`    [key: string]: ${indexType};`)
+            }
+
             return `{\n${props.join('\n')}\n}`
         }
     }
 }
 
+/** Value type of the keys not listed in `properties`, false when the object is closed */
+const mapAdditionalProperties = (
+    schema: Schema,
+    ancestors: (Schema | SchemaRef)[],
+    options: SchemaMappingOptions,
+): TypeNode | false | undefined => {
+    const additional = schema.additionalProperties ?? schema.unevaluatedProperties
+    const valueTypes = Object.values(schema.patternProperties ?? {}).map((v) => mapSchemaNode(v, ancestors, options))
+    if (additional === false && !valueTypes.length) return false
+    if (additional === true) valueTypes.push(identifier('any'))
+    else if (additional) valueTypes.push(mapSchemaNode(additional, ancestors, options))
+    if (!valueTypes.length) return undefined
+    return valueTypes.length === 1 ? valueTypes[0] : union(valueTypes)
+}
+
+/**
+ * Resolves the tag values of each union member from `discriminator.mapping`, falling back to the
+ * component name (implicit mapping) or the member's own const/enum. Without tags for every member
+ * the union is left as a plain union.
+ */
+const withDiscriminator = (
+    node: TypeNode,
+    variants: (Schema | SchemaRef)[],
+    discriminator?: Schema['discriminator'],
+): TypeNode => {
+    if (!discriminator?.propertyName || node.kind !== 'union') return node
+    const mapping = Object.entries(discriminator.mapping ?? {})
+    const values = variants.map((variant) => {
+        if (isSchemaRef(variant)) {
+            const name = variant.$ref.split('/').pop()!
+            const mapped = mapping.filter(([, ref]) => ref === variant.$ref || ref === name).map(([value]) => value)
+            return mapped.length ? mapped : [name]
+        }
+        const tag = variant.properties?.[discriminator.propertyName]
+        if (!tag || isSchemaRef(tag)) return []
+        return tag.const !== undefined ? [String(tag.const)] : (tag.enum ?? []).map(String)
+    })
+    if (values.some((v) => !v.length)) return node
+    return { ...node, discriminator: { propertyName: discriminator.propertyName, values } }
+}
+
+const withNullable = (node: TypeNode, nullable?: boolean): TypeNode => (nullable ? { ...node, nullable: true } : node)
+
+/** Removes `{ type: 'null' }` members of anyOf/oneOf, they are expressed through the nullable flag instead */
+const splitNullVariant = (variants: (Schema | SchemaRef)[]) => {
+    const nonNull = variants.filter((v) => isSchemaRef(v) || v.type !== 'null')
+    return { variants: nonNull, nullable: nonNull.length !== variants.length }
+}
+
+/** `ancestors` are the inline schemas the schema is nested in, a schema nested in itself is typed as `any` */
+const mapSchemaNode = (
+    schema: Schema | SchemaRef,
+    ancestors: (Schema | SchemaRef)[] = [],
+    options: SchemaMappingOptions = {},
+): TypeNode => {
+    if (!schema || isSchemaRef(schema))
+        return withAccess(withNullable(mapSchema(schema, ancestors, options), (schema as Schema)?.nullable), schema)
+    const override = schemaOverride(schema, options)
+    const formatType = schema.format ? options.formatTypes?.[schema.format] : undefined
+    const node: TypeNode = override
+        ? { ...overrideTypeNode(override, options), description: schema.description, example: schema.example }
+        : formatType
+          ? {
+                kind: 'identifier',
+                name: formatType.ts,
+                zod: formatType.zod,
+                description: schema.description,
+                example: schema.example,
+            }
+          : mapSchema(schema, ancestors, options)
+    const constraints = pickConstraints(schema)
+    // OAS 3.0 `nullable: true`, also honored as a sibling of $ref
+    return withAccess(withNullable(constraints ? { ...node, constraints } : node, schema.nullable), schema)
+}
+
+/** `depth` is ignored, as cycles are detected by the ancestors instead of cutting off at a depth */
 export const mapSchemaToTypeNode = (
     schema: Schema | SchemaRef,
     ancestors: (Schema | SchemaRef)[] = [],
     depth = 0,
+    options: SchemaMappingOptions = {},
+): TypeNode => mapSchemaNode(schema, ancestors, options)
+
+/** Member names are made unique, e.g. `a-b` and `a_b` -> `AB` and `AB2` */
+const mapEnum = (schema: Schema, options: SchemaMappingOptions): EnumIR => {
+    const names = new Set<string>()
+    const members = schema.enum!.map((value, i) => {
+        const varname = schema['x-enum-varnames']?.[i]
+        const base = varname ?? (typeof value === 'number' ? `Value${value}` : upperFirst(camelCase(String(value))))
+        const safe = toSafeName(base)
+        const name = !safe || /^\d/.test(safe) ? `_${safe}` : safe
+        let unique = name
+        for (let n = 2; names.has(unique); n++) unique = `${name}${n}`
+        names.add(unique)
+        const description = schema['x-enum-descriptions']?.[i]
+        return { name: unique, value, ...(description ? { description } : {}) }
+    })
+    return { style: options.enumStyle ?? 'union', members }
+}
+
+/** readOnly and writeOnly, also honored as siblings of $ref */
+const withAccess = (node: TypeNode, schema?: Schema | SchemaRef): TypeNode => {
+    const { readOnly, writeOnly } = (schema ?? {}) as Schema
+    if (!readOnly && !writeOnly) return node
+    return { ...node, ...(readOnly ? { readOnly } : {}), ...(writeOnly ? { writeOnly } : {}) }
+}
+
+/** `x-ts-type` of the schema itself or the configured override of its format */
+const schemaOverride = (schema: Schema, options: SchemaMappingOptions): TypeOverride | undefined => {
+    if (schema['x-ts-type']) {
+        return { type: schema['x-ts-type'], import: schema['x-ts-import'], zod: schema['x-zod-schema'] }
+    }
+    return schema.format ? options.typeOverrides?.formats?.[schema.format] : undefined
+}
+
+/** Imported names clashing with a generated declaration are aliased, e.g. `Money` -> `ImportedMoney` */
+const overrideTypeNode = (override: TypeOverride, options: SchemaMappingOptions): TypeNode => {
+    const imports: ImportIR[] = []
+    const importName = (name: string, typeOnly: boolean) => {
+        if (!override.import) return name
+        const alias = options.reservedNames?.has(name) ? `Imported${name}` : undefined
+        imports.push({ name, alias, from: override.import, typeOnly })
+        return alias ?? name
+    }
+    const name = importName(override.type, true)
+    const zod = override.zod ? importName(override.zod, false) : `z.custom<${name}>()`
+    return { kind: 'identifier', name, zod, imports }
+}
+
+const pickConstraints = (schema: Schema): Constraints | undefined => {
+    const constraints: Constraints = Object.fromEntries(
+        CONSTRAINT_KEYWORDS.filter((key) => schema[key] !== undefined).map((key) => [key, schema[key]]),
+    )
+    if (schema.type === 'integer') constraints.integer = true
+    return Object.keys(constraints).length ? constraints : undefined
+}
+
+const mapSchema = (
+    schema: Schema | SchemaRef,
+    ancestors: (Schema | SchemaRef)[],
+    options: SchemaMappingOptions,
 ): TypeNode => {
     if (!schema) return identifier('any')
 
     if (isSchemaRef(schema)) {
-        const refName = schema.$ref.split('/').pop() || 'any'
+        const refName = options.refNames?.[schema.$ref] ?? (schema.$ref.split('/').pop() || 'any')
         return identifier(`Components.Schemas.${toSafeName(refName)}`)
     }
 
-    if (!schema.type && schema.properties) {
+    if (!schema.type && (schema.properties || schema.additionalProperties || schema.patternProperties)) {
         schema.type = 'object'
     }
 
-    // prevent runaway recursion
-    if (ancestors.includes(schema) || depth > 5) return identifier(schema.type ?? 'any', schema)
+    // only refs can be recursive, an inline schema containing itself is a cycle of the parsed document
+    if (ancestors.includes(schema)) return identifier('any', schema)
+    const nested = [...ancestors, schema]
+
+    if (schema.const !== undefined) {
+        if (schema.const === null) return identifier('null')
+        if (typeof schema.const === 'object') return identifier('any', schema)
+        return { ...literal(schema.const), description: schema.description }
+    }
 
     if (schema.enum) {
-        return union(schema.enum.map((v) => literal(v)))
+        return { kind: 'union', types: schema.enum.map((v) => literal(v)), enum: mapEnum(schema, options) }
     }
 
     if (schema.anyOf) {
-        return union(schema.anyOf.map((v) => mapSchemaToTypeNode(v, ancestors, depth + 1)))
+        const { variants, nullable } = splitNullVariant(schema.anyOf)
+        const node = union(variants.map((v) => mapSchemaNode(v, nested, options)))
+        return withNullable(withDiscriminator(node, variants, schema.discriminator), nullable)
     }
 
     if (schema.allOf) {
-        return intersection(schema.allOf.map((v) => mapSchemaToTypeNode(v, ancestors, depth + 1)))
+        return intersection(schema.allOf.map((v) => mapSchemaNode(v, nested, options)))
     }
 
     if (schema.oneOf) {
-        return union(schema.oneOf.map((v) => mapSchemaToTypeNode(v, ancestors, depth + 1)))
+        const { variants, nullable } = splitNullVariant(schema.oneOf)
+        const node = union(variants.map((v) => mapSchemaNode(v, nested, options)))
+        return withNullable(withDiscriminator(node, variants, schema.discriminator), nullable)
+    }
+
+    // OAS 3.1 type lists, e.g. ['string', 'null']
+    if (Array.isArray(schema.type)) {
+        const types = schema.type.filter((type) => type !== 'null')
+        if (!types.length) return identifier('null')
+        const nodes = types.map((type) => mapSchemaNode({ ...schema, type, nullable: false }, nested, options))
+        return withNullable(nodes.length === 1 ? nodes[0] : union(nodes), types.length !== schema.type.length)
+    }
+
+    if (schema.example === undefined && schema.examples?.length) {
+        schema.example = schema.examples[0]
     }
 
     switch (schema.type) {
         case 'string':
+            if (schema.format === 'binary') return { ...binary(), description: schema.description }
             return identifier('string', schema)
         case 'integer':
         case 'number':
             return identifier('number', schema)
         case 'boolean':
             return identifier('boolean', schema)
-        case 'array':
-            return arrayOf(mapSchemaToTypeNode(schema.items!, [...ancestors, schema], depth + 1))
+        case 'null':
+            return identifier('null')
+        case 'array': {
+            if (schema.prefixItems) {
+                const elements = schema.prefixItems.map((v) => mapSchemaNode(v, nested, options))
+                const rest = schema.items ? mapSchemaNode(schema.items, nested, options) : undefined
+                return tuple(elements, rest)
+            }
+            return arrayOf(mapSchemaNode(schema.items || {}, nested, options))
+        }
         case 'object': {
+            const additionalProperties = mapAdditionalProperties(schema, nested, options)
             if (schema.properties) {
                 const props: Record<string, TypeNode> = {}
                 for (const [k, v] of Object.entries(schema.properties)) {
-                    props[k] = mapSchemaToTypeNode(v as Schema | SchemaRef, [...ancestors, schema], depth + 1)
+                    props[k] = mapSchemaNode(v as Schema | SchemaRef, nested, options)
                 }
                 return {
                     kind: 'object',
@@ -560,6 +1890,14 @@ export const mapSchemaToTypeNode = (
                     required: schema.required || [],
                     description: schema.description,
                     example: schema.example,
+                    ...(additionalProperties !== undefined ? { additionalProperties } : {}),
+                }
+            }
+            if (additionalProperties !== undefined) {
+                const valueType = additionalProperties || identifier('never')
+                return {
+                    ...generic(identifier('Record'), [identifier('string'), valueType]),
+                    description: schema.description,
                 }
             }
             return identifier('{ [key: string]: any }', schema)
@@ -0,0 +1,381 @@
+import { omit, upperFirst } from 'lodash'
+import { collectRefs, hoistedResponseType, isValueEnum, successStatuses, TypeNode } from './functions'
+import { ComponentIR, OperationIR, ResponseIR } from './types'
+
+export const MSW_IMPORTS = `import { http, HttpResponse } from 'msw'`
+
+const STRING_FORMATS: Record<string, string> = {
+    email: 'user@example.com',
+    uuid: '00000000-0000-4000-8000-000000000000',
+    uri: 'https://example.com',
+    url: 'https://example.com',
+    hostname: 'example.com',
+    ipv4: '127.0.0.1',
+    ipv6: '::1',
+    byte: 'c3RyaW5n',
+    date: '2024-01-01',
+    'date-time': '2024-01-01T00:00:00.000Z',
+    time: '00:00:00',
+}
+
+interface MockContext {
+    /** components referring back to the one being mocked, whose factories would recurse endlessly */
+    recursive: Set<string>
+    /** property the value is mocked for, used as the value of plain strings */
+    key?: string
+    /** components declared as TS enums, which don't accept plain values */
+    enums: Set<string>
+    /** components whose factories need overrides, see `unmockableComponents` */
+    unmockable: Set<string>
+    /** types hoisted out of the mocked response by their full name, e.g. `Paths.GetPet.Responses.$200.Status` */
+    named?: Map<string, TypeNode>
+    /** position of the array item the value is mocked for, items after the first get distinct values */
+    index?: number
+}
+
+/**
+ * The property name (or `string`) fitted to `minLength` and `maxLength` and suffixed with the item
+ * number after the first item, e.g. `tags2`. `undefined` when it doesn't match the `pattern`, as values
+ * matching any regular expression can't be generated.
+ */
+const mockString = (node: TypeNode, key = 'string', index = 0): string | undefined => {
+    const { format, minLength = 0, maxLength, pattern } = node.constraints ?? {}
+    const suffix = index ? String(index + 1) : ''
+    const padded = `${key}${suffix}`.padEnd(minLength, key)
+    const value =
+        format && STRING_FORMATS[format]
+            ? STRING_FORMATS[format]
+            : maxLength === undefined
+              ? padded
+              : `${padded.slice(0, Math.max(0, maxLength - suffix.length))}${suffix}`
+    return pattern === undefined || matches(pattern, value) ? value : undefined
+}
+
+const matches = (pattern: string, value: string): boolean => {
+    try {
+        return new RegExp(pattern).test(value)
+    } catch {
+        return false
+    }
+}
+
+/**
+ * The smallest value within the bounds, or 0 when it fits. Items after the first count away from
+ * the bound, as long as they stay within the bounds.
+ */
+const mockNumber = (node: TypeNode, index = 0): number => {
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf, integer } = node.constraints ?? {}
+    const step = integer ? 1 : 0.5
+    const hasMinimum = typeof exclusiveMinimum === 'number' || minimum !== undefined
+    let value = 0
+    if (typeof exclusiveMinimum === 'number') value = exclusiveMinimum + step
+    else if (minimum !== undefined) value = exclusiveMinimum ? minimum + step : minimum
+    else if (typeof exclusiveMaximum === 'number') value = Math.min(0, exclusiveMaximum - step)
+    else if (maximum !== undefined) value = Math.min(0, exclusiveMaximum ? maximum - step : maximum)
+    const first = multipleOf ? Math.ceil(value / multipleOf) * multipleOf : value
+    const offset = index * (multipleOf ?? step)
+    if (!hasMinimum) return first - offset
+    const next = first + offset
+    const belowMaximum =
+        (typeof exclusiveMaximum !== 'number' || next < exclusiveMaximum) &&
+        (maximum === undefined || (exclusiveMaximum === true ? next < maximum : next <= maximum))
+    return belowMaximum ? next : first
+}
+
+/** Spec examples are used as is, except for values mapped to runtime types */
+const mockExample = (node: TypeNode): string => {
+    const example = JSON.stringify(node.example)
+    if (node.kind === 'identifier' && node.name === 'Date') return `new Date(${example})`
+    if (node.kind === 'identifier' && node.name === 'bigint') return `BigInt(${example})`
+    return example
+}
+
+const mockIdentifier = (node: Extract<TypeNode, { kind: 'identifier' }>, ctx: MockContext): string | undefined => {
+    const { name } = node
+    if (name.startsWith('Components.Schemas.')) {
+        const component = name.split('.').pop()!
+        return ctx.recursive.has(component) || ctx.unmockable.has(component) ? undefined : `create${component}()`
+    }
+    const hoisted = ctx.named?.get(name)
+    if (hoisted?.kind === 'union' && hoisted.enum && isValueEnum(hoisted)) {
+        const { members } = hoisted.enum
+        return `${name}.${members[(ctx.index ?? 0) % members.length].name}`
+    }
+    if (hoisted) return mockValue(hoisted, ctx)
+    switch (name) {
+        case 'string': {
+            const value = mockString(node, ctx.key, ctx.index)
+            return value === undefined ? undefined : JSON.stringify(value)
+        }
+        case 'number':
+            return String(mockNumber(node, ctx.index))
+        case 'boolean':
+            return ctx.index ? String(ctx.index % 2 === 0) : 'true'
+        case 'null':
+            return 'null'
+        case 'any':
+        case 'unknown':
+            return '{}'
+        case 'object':
+        case '{ [key: string]: any }':
+            return '{}'
+        case 'Date':
+            return `new Date(${JSON.stringify(STRING_FORMATS['date-time'])})`
+        case 'bigint':
+            return `BigInt(${mockNumber(node, ctx.index)})`
+        case 'Blob':
+            return 'new Blob([])'
+        case 'File':
+            return `new File([], ${JSON.stringify(ctx.key ?? 'file')})`
+        case 'FormData':
+            return 'new FormData()'
+        case 'URLSearchParams':
+            return 'new URLSearchParams()'
+    }
+    if (name.startsWith('Branded<')) {
+        const value = mockString(node, ctx.key, ctx.index)
+        return value === undefined ? undefined : `${JSON.stringify(value)} as ${name}`
+    }
+    // user defined types can't be mocked from the schema
+    return undefined
+}
+
+/**
+ * Expression of a deterministic value fitting the type, `undefined` when only a recursive component,
+ * a string matching a pattern or a user defined type would fit. The caller then leaves out the property
+ * or falls back to `[]` or `null`, and otherwise the example or the overrides have to provide the value.
+ */
+const mockValue = (node: TypeNode, ctx: MockContext): string | undefined => {
+    if (node.example !== undefined) {
+        const hoisted = node.kind === 'identifier' ? ctx.named?.get(node.name) : undefined
+        const isEnum =
+            node.kind === 'identifier' &&
+            (ctx.enums.has(node.name.replace('Components.Schemas.', '')) || (!!hoisted && isValueEnum(hoisted)))
+        return isEnum ? `${mockExample(node)} as ${node.name}` : mockExample(node)
+    }
+    const value = mockType(node, ctx)
+    return value === undefined && node.nullable ? 'null' : value
+}
+
+const mockType = (node: TypeNode, ctx: MockContext): string | undefined => {
+    switch (node.kind) {
+        case 'identifier':
+            return mockIdentifier(node, ctx)
+        case 'literal':
+            return JSON.stringify(node.value)
+        case 'array': {
+            const count = Math.max(1, node.constraints?.minItems ?? 1)
+            const items = Array.from({ length: count }, (_, index) => mockValue(node.element, { ...ctx, index }))
+            return items.includes(undefined) ? '[]' : `[${items.join(', ')}]`
+        }
+        case 'tuple': {
+            const elements = node.elements.map((element) => mockValue(element, { ...ctx }))
+            return elements.includes(undefined) ? undefined : `[${elements.join(', ')}]`
+        }
+        case 'union': {
+            // array items take turns among the members
+            const members = node.types
+                .map((type, i) => [mockValue(type, { ...ctx }), i] as const)
+                .filter(([value]) => value !== undefined)
+            const [value, index] = members[(ctx.index ?? 0) % Math.max(1, members.length)] ?? []
+            if (value === undefined || !node.discriminator) return value
+            const tag = node.discriminator.values[index!][0]
+            return `{ ...${value}, ${JSON.stringify(node.discriminator.propertyName)}: ${JSON.stringify(tag)} }`
+        }
+        case 'intersection': {
+            const members = node.types.map((type) => mockValue(type, { ...ctx }))
+            return members.includes(undefined) ? undefined : `{ ${members.map((m) => `...${m}`).join(', ')} }`
+        }
+        case 'generic':
+            return node.base.kind === 'identifier' && node.base.name === 'Record' ? '{}' : undefined
+        case 'object': {
+            const properties = Object.entries(node.properties).map(([key, type]) => {
+                const value = mockValue(type, { ...ctx, key })
+                return [key, value === undefined ? undefined : `${JSON.stringify(key)}: ${value}`] as const
+            })
+            // the value of a required property has to come from the overrides of the component
+            if (properties.some(([key, value]) => value === undefined && node.required.includes(key))) return undefined
+            return `{ ${properties.flatMap(([, value]) => (value === undefined ? [] : [value])).join(', ')} }`
+        }
+    }
+}
+
+/** Components from which the given one is reachable through references, including itself */
+const recursiveComponents = (name: string, components: ComponentIR[]): Set<string> => {
+    const refs = new Map(components.map((c) => [c.name, collectRefs(c.type)]))
+    const reaches = (from: string, seen = new Set<string>()): boolean => {
+        if (seen.has(from)) return false
+        seen.add(from)
+        return [...(refs.get(from) ?? [])].some((ref) => ref === name || reaches(ref, seen))
+    }
+    return new Set(components.filter((c) => c.name === name || reaches(c.name)).map((c) => c.name))
+}
+
+/** Entries of an object literal, e.g. `{ a: 1, ...b }` -> `a: 1, ...b`, to be spread into another one */
+const entries = (literal: string): string[] => {
+    const inner = literal.replace(/^{\s*|\s*}$/g, '')
+    return inner ? [inner] : []
+}
+
+/** Names of the components declared as TS enums */
+const enumComponents = (components: ComponentIR[]): Set<string> =>
+    new Set(
+        components
+            .filter(({ type }) => type.kind === 'union' && type.enum?.style === 'enum' && isValueEnum(type))
+            .map((c) => c.name),
+    )
+
+/** The example is laid over the generated values, so required properties it leaves out are still set */
+const objectExample = (node: TypeNode): object => (node.example && typeof node.example === 'object' ? node.example : {})
+
+/** Required properties of an object without example or generated value, which the overrides have to set */
+const requiredOverrides = (node: TypeNode, ctx: MockContext): string[] => {
+    if (node.kind !== 'object') return []
+    const example = objectExample(node)
+    return node.required.filter(
+        (key) =>
+            node.properties[key] && !(key in example) && mockValue(node.properties[key], { ...ctx, key }) === undefined,
+    )
+}
+
+/** Whether the factory of a component takes the values that can't be generated, see `renderFactory` */
+const needsOverrides = ({ type: node }: ComponentIR, ctx: MockContext): boolean => {
+    if (node.kind === 'union' && node.enum && isValueEnum(node)) return false
+    if (node.kind === 'object' && !node.nullable) return requiredOverrides(node, ctx).length > 0
+    if (node.kind === 'intersection' && !node.nullable) return mockType(node, ctx) === undefined
+    return node.example === undefined && mockType(node, ctx) === undefined
+}
+
+/**
+ * Components whose factories need overrides, along with the ones they are required by, as a value
+ * referring to them can't be generated without them either
+ */
+const unmockableComponents = (
+    components: ComponentIR[],
+    contextOf: (name: string, unmockable: Set<string>) => MockContext,
+): Set<string> => {
+    const unmockable = new Set<string>()
+    for (let size = -1; size !== unmockable.size; ) {
+        size = unmockable.size
+        components
+            .filter((c) => !unmockable.has(c.name) && needsOverrides(c, contextOf(c.name, unmockable)))
+            .forEach((c) => unmockable.add(c.name))
+    }
+    return unmockable
+}
+
+/**
+ * `createX(overrides)` returns the example or generated value with the overrides laid over it. The
+ * values that can't be generated, e.g. of required properties referring back to the component or
+ * strings matching a pattern, are required overrides instead.
+ */
+const renderFactory = (component: ComponentIR, ctx: MockContext): string => {
+    const type = `Components.Schemas.${component.name}`
+    const node = component.type
+    if (node.kind === 'union' && node.enum && isValueEnum(node)) {
+        const member = `${type}.${node.enum.members[0].name}`
+        return `export const create${component.name} = (override?: ${type}): ${type} => override ?? ${member}`
+    }
+    if ((node.kind === 'object' || node.kind === 'intersection') && !node.nullable) {
+        const example = objectExample(node)
+        const required = requiredOverrides(node, ctx)
+        const generated =
+            node.kind === 'object'
+                ? mockType({ ...node, properties: omit(node.properties, [...Object.keys(example), ...required]) }, ctx)
+                : mockType(node, ctx)
+        const mock = [...entries(generated ?? '{}'), ...entries(JSON.stringify(example)), '...overrides'].join(', ')
+        const overrides =
+            generated === undefined
+                ? type
+                : required.length
+                  ? `Partial<${type}> & Pick<${type}, ${required.map((key) => JSON.stringify(key)).join(' | ')}>`
+                  : `Partial<${type}> = {}`
+        return `export const create${component.name} = (overrides: ${overrides}): ${type} => ({ ${mock} })`
+    }
+    const mock = node.example === undefined ? mockType(node, ctx) : mockExample(node)
+    if (mock === undefined) return `export const create${component.name} = (override: ${type}): ${type} => override`
+    return `export const create${component.name} = (override?: ${type}): ${type} => override ?? ${mock}`
+}
+
+const responseExample = (resp: ResponseIR): unknown => {
+    const media = Object.values(resp.content ?? {})[0]
+    return media?.example ?? Object.values(media?.examples ?? {})[0]?.value
+}
+
+const mswPath = (path: string) => `*${path.replace(/{([^}]+)}/g, ':$1')}`
+
+/** HTTP status replied for a documented status key, e.g. `4XX` -> 400 */
+const replyStatus = (status: string, op: OperationIR): number => {
+    if (status === 'default') return successStatuses(op).includes('default') ? 200 : 500
+    return Number(status.replace(/XX$/i, '00'))
+}
+
+/** The example or generated body of a response, `undefined` when the handler has to be given the body */
+const responseMock = (op: OperationIR, status: string, ctx: MockContext): string | undefined => {
+    const example = responseExample(op.responses[status])
+    if (example !== undefined) return JSON.stringify(example)
+    // inline enums are declared as types named after their place in the response
+    const hoisted = hoistedResponseType(op, status)
+    return hoisted && mockValue(hoisted.type, { ...ctx, named: hoisted.named })
+}
+
+const renderResponseHandler = (op: OperationIR, status: string, ctx: MockContext): string => {
+    const resp = op.responses[status]
+    const call = `http.${op.method}(${JSON.stringify(mswPath(op.path))}`
+    const init = `{ status: ${replyStatus(status, op)} }`
+    const contentType = Object.keys(resp.content ?? {})[0]
+    if (!resp.type || !contentType) return `$${status}: () => ${call}, () => new HttpResponse(null, ${init})),`
+
+    const mock = responseMock(op, status, ctx)
+    const dataType = `Paths.${upperFirst(op.id)}.Responses.$${status}`
+    const reply = /json/i.test(contentType)
+        ? `HttpResponse.json(data, ${init})`
+        : /^text\//i.test(contentType)
+          ? `HttpResponse.text(String(data), ${init})`
+          : `new HttpResponse(data as BodyInit, ${init})`
+    return `$${status}: (data: ${dataType}${mock === undefined ? '' : ` = ${mock}`}) => ${call}, () => ${reply}),`
+}
+
+/**
+ * Renders a `createX(overrides)` factory per component, based on the spec examples or deterministic
+ * values fitting the schema, and Mock Service Worker handlers per operation and documented status
+ */
+export const renderMocks = (components: ComponentIR[], operations: OperationIR[]): string => {
+    const enums = enumComponents(components)
+    const recursive = new Map(components.map((c) => [c.name, recursiveComponents(c.name, components)]))
+    const contextOf = (name: string, unmockable: Set<string>) => ({
+        recursive: recursive.get(name)!,
+        enums,
+        unmockable,
+    })
+    const unmockable = unmockableComponents(components, contextOf)
+    const responseCtx: MockContext = { recursive: new Set(), enums, unmockable }
+    const withResponses = operations.filter((op) => Object.keys(op.responses).length)
+    // handlers that have to be given the body are left out
+    const defaults = withResponses.flatMap((op) => {
+        const status = successStatuses(op)[0] ?? Object.keys(op.responses)[0]
+        const { type, content } = op.responses[status]
+        const given = type && Object.keys(content ?? {}).length && responseMock(op, status, responseCtx) === undefined
+        return given ? [] : [`mockHandlers.${op.id}.$${status}(),`]
+    })
+    return `
+    ${components.map((component) => renderFactory(component, contextOf(component.name, unmockable))).join('\n')}
+
+    export const mockHandlers = {
+        ${withResponses
+            .map(
+                (op) => `${op.id}: {
+            ${Object.keys(op.responses)
+                .map((status) => renderResponseHandler(op, status, responseCtx))
+                .join('\n')}
+        },`,
+            )
+            .join('\n')}
+    }
+
+    /** Handlers replying with the first success response of every operation, e.g. for \`setupServer(...defaultMockHandlers)\` */
+    export const defaultMockHandlers = [
+        ${defaults.join('\n')}
+    ]
+    `
+}
@@ -1,10 +1,9 @@
 #!/usr/bin/env node
 import fs from 'fs/promises'
 import path from 'path'
-import YAML from 'yaml'
 import $RefParser from '@apidevtools/json-schema-ref-parser'
 import prettier from 'prettier'
-import { OpenApiIR } from './types'
+import { OpenApiIR, SchemaMappingOptions, TypeOverrides } from './types'
 import {
     renderComponents,
     renderPaths,
@@ -12,9 +11,19 @@ import {
     renderPathsDictionary,
     generateIROperations,
     generateComponentTypes,
+    generateSharedComponents,
     renderZodOperationMappings,
+    resolveFormatTypes,
+    resolveEnumStyle,
+    componentNames,
+    renderImports,
 } from './functions'
 import { parseArgs } from './cli-parser'
+import { loadSpec, parseHeader } from './spec-loader'
+import { renderClient } from './client'
+import { REACT_QUERY_IMPORTS, renderQueryHooks } from './react-query'
+import { renderServer } from './server'
+import { MSW_IMPORTS, renderMocks } from './mocks'
 
 const CONSTANT_TYPES = `
 export type ImplicitParamValue = string | number
@@ -29,26 +38,68 @@ export type ImplicitParamValue = string | number
         export type AxiosRequestConfig = any
 `
 
-const loadSpec = async (file: string): Promise<OpenApiIR> => {
-    const content = await fs.readFile(file, 'utf-8')
-    if (file.endsWith('.yaml') || file.endsWith('.yml')) return YAML.parse(content)
-    return JSON.parse(content)
+// the genuine types of openapi-client-axios, which the generated methods are compatible with
+const AXIOS_IMPORTS = `
+import type { AxiosRequestConfig } from 'axios'
+import type {
+    ImplicitParamValue,
+    OpenAPIClient,
+    OperationResponse,
+    Parameters,
+    SingleParam,
+    UnknownParamsObject,
+} from 'openapi-client-axios'
+`
+
+const AXIOS_TYPES = `
+export type { AxiosRequestConfig, ImplicitParamValue, OperationResponse, Parameters, SingleParam, UnknownParamsObject }
+export type Client = OpenAPIClient<OperationMethods, PathsDictionary>
+`
+
+const loadTypeOverrides = async (file: string): Promise<TypeOverrides> => {
+    return JSON.parse(await fs.readFile(file, 'utf-8'))
 }
 
-const generateTypes = async (spec: OpenApiIR, keepNoOpId: boolean, zod: boolean): Promise<string> => {
+const BRANDED_TYPE = `export type Branded<T, Brand extends string> = T & { readonly __brand: Brand }`
+
+/** Optional modules rendered along with the types */
+type OutputOptions = Partial<Record<'client' | 'axios' | 'reactQuery' | 'server' | 'mocks', boolean>>
+
+export const generateTypes = async (
+    spec: OpenApiIR,
+    keepNoOpId: boolean,
+    zod: boolean,
+    options: SchemaMappingOptions = {},
+    { client, axios, reactQuery, server, mocks }: OutputOptions = {},
+): Promise<string> => {
+    if (client && axios) {
+        // the methods would be typed as resolving axios responses, while the fetch client resolves the bodies
+        throw new Error('-a/--axios types the methods of openapi-client-axios and cannot be combined with -c/--client')
+    }
+    const revived = Object.values(options.formatTypes ?? {}).some(({ ts }) => ts === 'Date' || ts === 'bigint')
+    if (client && !zod && revived) {
+        // JSON bodies only hold strings and numbers, the response validators convert them
+        throw new Error('-c/--client revives formats mapped to Date or bigint with the Zod validators of -z/--zod only')
+    }
     const bundled = (await $RefParser.bundle(spec)) as OpenApiIR
-    const operations = generateIROperations(bundled, keepNoOpId)
-    const components = generateComponentTypes(bundled.components)
-    const componentsString = renderComponents(components, zod)
-    const pathsString = renderPaths(operations)
+    const mappingOptions = { ...options, reservedNames: componentNames(bundled.components) }
+    const operations = generateIROperations(bundled, keepNoOpId, mappingOptions)
+    const components = generateComponentTypes(bundled.components, mappingOptions)
+    const shared = generateSharedComponents(bundled.components, mappingOptions)
+    const componentsString = renderComponents(components, zod, shared)
+    const pathsString = renderPaths(operations, zod)
     const opsString = renderOperations(operations)
     const pathDictString = renderPathsDictionary(operations)
-    const zodMappingString = renderZodOperationMappings(operations)
+    const zodMappingString = renderZodOperationMappings(operations, components)
 
     const combinedString = `
         /* eslint-disable @typescript-eslint/no-namespace */
     
         ${zod ? "import { z } from 'zod'" : ''}
+        ${axios ? AXIOS_IMPORTS : ''}
+        ${reactQuery ? REACT_QUERY_IMPORTS : ''}
+        ${mocks ? MSW_IMPORTS : ''}
+        ${renderImports(components, operations, zod)}
 
         // Automatically generated types
         ${componentsString}
@@ -61,14 +112,34 @@ const generateTypes = async (spec: OpenApiIR, keepNoOpId: boolean, zod: boolean)
 
         ${zod ? zodMappingString : ''}
 
-        ${CONSTANT_TYPES}
+        ${client ? renderClient(operations, zod) : ''}
+
+        ${reactQuery ? renderQueryHooks(operations) : ''}
+
+        ${server ? renderServer(operations, zod) : ''}
+
+        ${mocks ? renderMocks(components, operations) : ''}
+
+        ${axios ? AXIOS_TYPES : CONSTANT_TYPES}
+        ${options.formatTypes ? BRANDED_TYPE : ''}
     `
 
     return combinedString
 }
 
+/** Headers from the command line, which take precedence over the environment */
+const requestHeaders = (headers: string[]): Record<string, string> => {
+    const authorization = process.env.OPENAPI_AUTHORIZATION
+    return {
+        ...(authorization ? { authorization } : {}),
+        ...Object.fromEntries(headers.map(parseHeader).map(([name, value]) => [name.toLowerCase(), value])),
+    }
+}
+
 const main = async () => {
-    const { keepNoOpId, input, output, zod } = parseArgs(process.argv)
+    const { keepNoOpId, input, output, zod, formatTypes, typeOverrides, enumStyle, headers, ...outputs } = parseArgs(
+        process.argv,
+    )
     const file = input ?? process.argv[2]
     if (!file) {
         console.error(
@@ -76,15 +147,37 @@ const main = async () => {
 @kallinen/openapi-typings-gen <options>
 
 Options:
--i, --input   Path to input OpenAPI spec (json|yaml)
+-i, --input   Path or http(s) URL of an OpenAPI v3 or Swagger 2.0 spec (json|yaml), - for stdin
 -o, --output  Path to output .ts file
 -k, --keep    Keep methods without operationId (optional)
--z, --zod     Generate Zod validation schemas (optional)`,
+-z, --zod     Generate Zod validation schemas (optional)
+-c, --client  Generate a fetch based runtime client (optional)
+-a, --axios   Use the types of axios and openapi-client-axios and export a Client type, not with -c (optional)
+-q, --react-query
+              Generate TanStack Query hooks and query keys (optional)
+-s, --server  Generate server handler types and Express/Fastify registration (optional)
+-m, --mocks   Generate mock factories and MSW handlers (optional)
+-f, --format-types <format=Type,...|default>
+              Map formats to Date, bigint, Blob or Branded types (optional)
+-t, --type-overrides <file.json>
+              Replace components and formats with imported types (optional)
+-e, --enum-style <union|enum|const>
+              Declare named enums as literal unions (default), TS enums or as const objects (optional)
+-H, --header <"Name: value">
+              Request header of a remote spec, repeatable (optional)
+
+Environment:
+OPENAPI_AUTHORIZATION  Authorization header of a remote spec`,
         )
         process.exit(1)
     }
-    const spec = await loadSpec(path.resolve(file))
-    const types = await generateTypes(spec, keepNoOpId, zod)
+    const spec = await loadSpec(file, { headers: requestHeaders(headers) })
+    const options: SchemaMappingOptions = {
+        ...(formatTypes ? { formatTypes: resolveFormatTypes(formatTypes) } : {}),
+        ...(enumStyle ? { enumStyle: resolveEnumStyle(enumStyle) } : {}),
+        ...(typeOverrides ? { typeOverrides: await loadTypeOverrides(path.resolve(typeOverrides)) } : {}),
+    }
+    const types = await generateTypes(spec, keepNoOpId, zod, options, outputs)
     const config: prettier.Options = {
         parser: 'typescript',
         semi: false,
@@ -103,4 +196,9 @@ Options:
     }
 }
 
-main()
+if (require.main === module) {
+    main().catch((error: Error) => {
+        console.error(error.message)
+        process.exit(1)
+    })
+}
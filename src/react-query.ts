@@ -0,0 +1,144 @@
+import { upperFirst } from 'lodash'
+import { parameterTypes } from './functions'
+import { OperationIR } from './types'
+
+export const REACT_QUERY_IMPORTS = `
+import { useInfiniteQuery, useMutation, useQuery } from '@tanstack/react-query'
+import type {
+    InfiniteData,
+    UseInfiniteQueryOptions,
+    UseMutationOptions,
+    UseQueryOptions,
+} from '@tanstack/react-query'
+`
+
+const isSafeName = (name: string) => /^[$A-Z_][0-9A-Z_$]*$/i.test(name)
+const accessor = (name: string) => (isSafeName(name) ? `parameters.${name}` : `parameters[${JSON.stringify(name)}]`)
+
+const hasRequiredParam = (op: OperationIR) =>
+    Object.values(op.parameters).some((params) => params.some((p) => p.param.required))
+
+/**
+ * e.g. `parameters: Paths.GetPet.PathParameters`, empty without parameters.
+ * Optional parameters followed by a required argument are typed `| undefined` instead.
+ */
+const renderParamsArg = (op: OperationIR, omit?: string, positional = false): string => {
+    const types = parameterTypes(op)
+    if (!types.length) return ''
+    const type = omit ? `Omit<${types.join(' & ')}, ${JSON.stringify(omit)}>` : types.join(' & ')
+    if (hasRequiredParam(op)) return `parameters: ${type}`
+    return positional ? `parameters: ${type} | undefined` : `parameters?: ${type}`
+}
+
+/**
+ * Keys start with the path segments, so e.g. `['pets']` matches every query below `/pets`,
+ * followed by the parameters object when the operation has query parameters.
+ * Templates without a documented path parameter are kept as is.
+ */
+const renderQueryKey = (op: OperationIR, suffix: string[] = []): string => {
+    const names = new Set(op.parameters.path.map((p) => p.param.name))
+    const segments = op.path
+        .split('/')
+        .filter(Boolean)
+        .map((segment) => {
+            const exact = segment.match(/^{([^}]+)}$/)
+            if (exact && names.has(exact[1])) return accessor(exact[1])
+            if (![...segment.matchAll(/{([^}]+)}/g)].some(([, name]) => names.has(name))) {
+                return JSON.stringify(segment)
+            }
+            const template = segment.replace(/{([^}]+)}/g, (match, name: string) =>
+                names.has(name) ? `\${${accessor(name)}}` : match,
+            )
+            return `\`${template}\``
+        })
+    const params = op.parameters.query.length ? [hasRequiredParam(op) ? 'parameters' : 'parameters ?? {}'] : []
+    return `[${[...segments, ...suffix.map((s) => JSON.stringify(s)), ...params].join(', ')}] as const`
+}
+
+const renderQueryKeys = (operations: OperationIR[]): string => {
+    const queries = operations.filter((op) => op.method === 'get')
+    const keys = queries.flatMap((op) => [
+        `${op.id}: (${renderParamsArg(op)}) => ${renderQueryKey(op)},`,
+        ...(op.pagination
+            ? [
+                  `${op.id}Infinite: (${renderParamsArg(op, op.pagination.pageParam)}) => ${renderQueryKey(op, ['infinite'])},`,
+              ]
+            : []),
+    ])
+    return `
+    /** Query keys of the GET operations, derived from the path and parameters */
+    export const queryKeys = {
+        ${keys.join('\n')}
+    }
+    `
+}
+
+const renderQueryHook = (op: OperationIR): string => {
+    const data = `OperationData<'${op.id}'>`
+    const paramsArg = renderParamsArg(op)
+    const args = paramsArg ? 'parameters' : ''
+    return `use${upperFirst(op.id)}: (
+        ${paramsArg ? `${paramsArg},` : ''}
+        options?: Omit<UseQueryOptions<${data}, Error, ${data}, ReturnType<typeof queryKeys.${op.id}>>, 'queryKey' | 'queryFn'>,
+    ) => useQuery({ queryKey: queryKeys.${op.id}(${args}), queryFn: () => client.${op.id}(${args}), ...options }),`
+}
+
+/** Infinite queries pass the page param of each page as the paginated query parameter */
+const renderInfiniteQueryHook = (op: OperationIR): string => {
+    const { pageParam } = op.pagination!
+    const data = `OperationData<'${op.id}'>`
+    const pageType = `Paths.${upperFirst(op.id)}.QueryParameters[${JSON.stringify(pageParam)}]`
+    const queryKey = `ReturnType<typeof queryKeys.${op.id}Infinite>`
+    return `use${upperFirst(op.id)}Infinite: (
+        ${renderParamsArg(op, pageParam, true)},
+        options: Omit<
+            UseInfiniteQueryOptions<${data}, Error, InfiniteData<${data}, ${pageType}>, ${queryKey}, ${pageType}>,
+            'queryKey' | 'queryFn'
+        >,
+    ) =>
+        useInfiniteQuery({
+            queryKey: queryKeys.${op.id}Infinite(parameters),
+            queryFn: ({ pageParam }) => client.${op.id}({ ...parameters, ${JSON.stringify(pageParam)}: pageParam }),
+            ...options,
+        }),`
+}
+
+const renderMutationHook = (op: OperationIR): string => {
+    const operationName = upperFirst(op.id)
+    const variables = [
+        renderParamsArg(op),
+        op.requestBody ? `data${op.requestBody.required ? '' : '?'}: Paths.${operationName}.RequestBody` : '',
+    ].filter(Boolean)
+    const hasParams = parameterTypes(op).length > 0
+    const destructured = [hasParams ? 'parameters' : '', op.requestBody ? 'data' : ''].filter(Boolean)
+    const args = op.requestBody ? [hasParams ? 'parameters' : 'undefined', 'data'] : destructured
+    const call = `client.${op.id}(${args.join(', ')})`
+    const variablesType = variables.length ? `{ ${variables.join('; ')} }` : 'void'
+    const mutationFn = destructured.length
+        ? `({ ${destructured.join(', ')} }: ${variablesType}) => ${call}`
+        : `() => ${call}`
+    return `use${operationName}: (
+        options?: Omit<UseMutationOptions<OperationData<'${op.id}'>, Error, ${variablesType}>, 'mutationFn'>,
+    ) => useMutation({ mutationFn: ${mutationFn}, ...options }),`
+}
+
+/**
+ * Renders query key factories and a `createQueryHooks(client)` factory of TanStack Query hooks:
+ * `useQuery` hooks for GET operations, `useMutation` hooks for other methods and `useInfiniteQuery`
+ * hooks for GET operations marked with `x-pagination`
+ */
+export const renderQueryHooks = (operations: OperationIR[]): string => {
+    const hooks = operations.flatMap((op) => {
+        if (op.method !== 'get') return [renderMutationHook(op)]
+        return [renderQueryHook(op), ...(op.pagination ? [renderInfiniteQueryHook(op)] : [])]
+    })
+    return `
+    export type OperationData<K extends keyof OperationMethods> = Awaited<ReturnType<OperationMethods[K]>>
+
+    ${renderQueryKeys(operations)}
+
+    export const createQueryHooks = (client: OperationMethods) => ({
+        ${hooks.join('\n')}
+    })
+    `
+}
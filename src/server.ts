@@ -0,0 +1,216 @@
+import { upperFirst } from 'lodash'
+import { OperationIR } from './types'
+
+/**
+ * Framework independent part of the server runtime. Express and Fastify are typed structurally
+ * with method signatures, so their apps are accepted without depending on either package.
+ */
+const SERVER_RUNTIME = `
+type LowercaseKeys<T> = { [K in keyof T as Lowercase<K & string>]: T[K] }
+
+export interface HandlerRequest<Params = object, Query = object, Headers = object, Cookies = object, Body = undefined> {
+    params: Params
+    query: Query
+    /** header names are lower case in Node */
+    headers: LowercaseKeys<Headers> & { [name: string]: unknown }
+    /** requires a cookie parser, e.g. cookie-parser or @fastify/cookie */
+    cookies: Cookies
+    body: Body
+}
+
+export type Handler<Request, Result> = (request: Request) => Result | Promise<Result>
+
+interface Reply {
+    status: number
+    data?: unknown
+}
+
+interface Route {
+    id: keyof Handlers
+    method: string
+    /** Express and Fastify style path, e.g. \`/pets/:petId\` */
+    path: string
+    validate?: (request: HandlerRequest<unknown, unknown, unknown, unknown, unknown>) => Reply | undefined
+}
+
+const handle = async (
+    route: Route,
+    handlers: Partial<Handlers>,
+    request: HandlerRequest<unknown, unknown, unknown, unknown, unknown>,
+): Promise<Reply> => {
+    const handler = handlers[route.id] as Handler<typeof request, Reply>
+    return route.validate?.(request) ?? handler(request)
+}
+
+const isRaw = (data: unknown) => typeof data === 'string' || data instanceof Uint8Array
+
+interface ExpressRequest {
+    params: object
+    query: object
+    headers: { [name: string]: unknown }
+    cookies?: object
+    body?: unknown
+}
+
+interface ExpressResponse {
+    status(code: number): ExpressResponse
+    json(body: unknown): unknown
+    send(body: unknown): unknown
+    end(): unknown
+}
+
+type ExpressHandler = (request: ExpressRequest, response: ExpressResponse, next: (error?: unknown) => void) => void
+
+interface ExpressApp {
+    get(path: string, handler: ExpressHandler): unknown
+    put(path: string, handler: ExpressHandler): unknown
+    post(path: string, handler: ExpressHandler): unknown
+    delete(path: string, handler: ExpressHandler): unknown
+    options(path: string, handler: ExpressHandler): unknown
+    head(path: string, handler: ExpressHandler): unknown
+    patch(path: string, handler: ExpressHandler): unknown
+}
+
+/** Mounts the given handlers on an Express app, bodies have to be parsed beforehand, e.g. with \`express.json()\` */
+export const registerExpressHandlers = (app: ExpressApp, handlers: Partial<Handlers>): void => {
+    for (const route of routes.filter((r) => handlers[r.id])) {
+        app[route.method as keyof ExpressApp](route.path, (req, res, next) => {
+            const { params, query, headers, cookies = {}, body } = req
+            handle(route, handlers, { params, query, headers, cookies, body })
+                .then(({ status, data }) => {
+                    const response = res.status(status)
+                    if (data === undefined) response.end()
+                    else if (isRaw(data)) response.send(data)
+                    else response.json(data)
+                })
+                .catch(next)
+        })
+    }
+}
+
+interface FastifyRequest {
+    params: unknown
+    query: unknown
+    headers: { [name: string]: unknown }
+    cookies?: object
+    body?: unknown
+}
+
+interface FastifyReply {
+    code(status: number): FastifyReply
+    send(payload?: unknown): FastifyReply
+}
+
+interface FastifyApp {
+    route(options: {
+        method: string
+        url: string
+        handler: (request: FastifyRequest, reply: FastifyReply) => Promise<unknown>
+    }): unknown
+}
+
+/** Mounts the given handlers on a Fastify instance */
+export const registerFastifyHandlers = (app: FastifyApp, handlers: Partial<Handlers>): void => {
+    for (const route of routes.filter((r) => handlers[r.id])) {
+        app.route({
+            method: route.method.toUpperCase(),
+            url: route.path,
+            handler: async (req, reply) => {
+                const { params, query, headers, cookies = {}, body } = req
+                const { status, data } = await handle(route, handlers, { params, query, headers, cookies, body })
+                return reply.code(status).send(data)
+            },
+        })
+    }
+}
+`
+
+/** Validates the request with the Zod request validators and replaces it with the coerced values */
+const ZOD_VALIDATION = `
+type RequestValidator = Partial<Record<'path' | 'query' | 'header' | 'cookie' | 'body', z.ZodType>> & {
+    bodyByContentType?: Record<string, z.ZodType>
+}
+
+/** Schema of the request's media type, e.g. \`multipart/form-data; boundary=x\` -> \`multipart/form-data\` */
+const bodySchema = (validator: RequestValidator, contentType: unknown): z.ZodType | undefined => {
+    const schemas = Object.entries(validator.bodyByContentType ?? {})
+    if (!schemas.length || typeof contentType !== 'string') return validator.body
+    const essence = contentType.split(';')[0].trim().toLowerCase()
+    const candidates = [essence, \`\${essence.split('/')[0]}/*\`, '*/*']
+    const match = candidates.map((c) => schemas.find(([key]) => key.toLowerCase() === c)).find(Boolean)
+    return match?.[1] ?? validator.body
+}
+
+const validateRequest =
+    (validator: RequestValidator) =>
+    (request: HandlerRequest<unknown, unknown, unknown, unknown, unknown>): Reply | undefined => {
+        const parts = [
+            ['params', validator.path],
+            ['query', validator.query],
+            ['headers', validator.header],
+            ['cookies', validator.cookie],
+            ['body', bodySchema(validator, request.headers['content-type'])],
+        ] as const
+        const issues: z.core.$ZodIssue[] = []
+        for (const [key, schema] of parts) {
+            if (!schema) continue
+            const result = schema.safeParse(request[key])
+            if (!result.success) issues.push(...result.error.issues.map((issue) => ({ ...issue, path: [key, ...issue.path] })))
+            // unknown headers are kept, other parts are replaced by the parsed values
+            else if (key === 'headers') request.headers = { ...request.headers, ...(result.data as object) }
+            else request[key] = result.data
+        }
+        return issues.length ? { status: 400, data: { message: 'Invalid request', issues } } : undefined
+    }
+`
+
+/** Without validation the parameters are the strings parsed by Express or Fastify */
+const UNVALIDATED_PARAMETERS = `
+type Unvalidated<Params, Value = string | string[]> = { [K in keyof Params]: Value }
+`
+
+const renderHandler = (op: OperationIR, zod: boolean): string => {
+    const operationName = upperFirst(op.id)
+    const part = (location: keyof OperationIR['parameters'], name: string, value?: string) => {
+        if (!op.parameters[location].length) return 'object'
+        const type = `Paths.${operationName}.${name}`
+        return zod ? type : `Unvalidated<${value ? `${type}, ${value}` : type}>`
+    }
+    const request = `HandlerRequest<${[
+        part('path', 'PathParameters', 'string'),
+        part('query', 'QueryParameters'),
+        part('header', 'HeaderParameters'),
+        part('cookie', 'CookieParameters', 'string'),
+        `Paths.${operationName}.RequestBody`,
+    ].join(', ')}>`
+    return `${op.id}: Handler<${request}, Paths.${operationName}.Result>`
+}
+
+const renderRoute = (op: OperationIR, zod: boolean): string => {
+    const path = op.path.replace(/{([^}]+)}/g, ':$1')
+    const validated = zod && (Object.values(op.parameters).some((params) => params.length) || op.requestBody)
+    const validate = validated ? `, validate: validateRequest(apiRequestValidators.${op.id})` : ''
+    return `{ id: '${op.id}', method: '${op.method}', path: '${path}'${validate} },`
+}
+
+/**
+ * Renders a `Handlers` interface with a handler per operation, which receives the typed request
+ * and resolves to one of the documented `Paths.X.Result` replies, and helpers registering the
+ * handlers on Express or Fastify. With `zod` requests are validated with `apiRequestValidators`,
+ * without it the parameters are typed as the strings the frameworks parse.
+ */
+export const renderServer = (operations: OperationIR[], zod: boolean): string => {
+    return `
+    ${SERVER_RUNTIME}
+
+    ${zod ? ZOD_VALIDATION : UNVALIDATED_PARAMETERS}
+
+    export interface Handlers {
+        ${operations.map((op) => renderHandler(op, zod)).join('\n')}
+    }
+
+    const routes: Route[] = [
+        ${operations.map((op) => renderRoute(op, zod)).join('\n')}
+    ]
+    `
+}
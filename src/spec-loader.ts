@@ -0,0 +1,87 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { fileURLToPath, pathToFileURL } from 'url'
+import YAML from 'yaml'
+import { hoistExternalRefs } from './external-refs'
+import { convertSwagger2, isSwagger2 } from './swagger2'
+import { OpenApiIR } from './types'
+
+export interface LoadSpecOptions {
+    /** request headers of remote specs and the files they refer to on the same origin, e.g. `{ Authorization: 'Bearer ...' }` */
+    headers?: Record<string, string>
+    /** read for the input `-` */
+    stdin?: NodeJS.ReadableStream
+}
+
+const isUrl = (input: string) => /^https?:\/\//i.test(input)
+
+const readStream = async (stream: NodeJS.ReadableStream): Promise<string> => {
+    const chunks: Buffer[] = []
+    for await (const chunk of stream) chunks.push(Buffer.from(chunk))
+    return Buffer.concat(chunks).toString('utf-8')
+}
+
+const fetchDocument = async (url: string, headers: Record<string, string>): Promise<string> => {
+    const response = await fetch(url, { headers }).catch((error: Error & { cause?: Error }) => {
+        throw new Error(`Failed to fetch ${url}: ${error.cause?.message ?? error.message}`)
+    })
+    if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`)
+    return response.text()
+}
+
+/** e.g. `Authorization: Bearer token` -> `['Authorization', 'Bearer token']` */
+export const parseHeader = (header: string): [name: string, value: string] => {
+    const index = header.indexOf(':')
+    if (index < 1) throw new Error(`Invalid header "${header}", expected "Name: value"`)
+    return [header.slice(0, index).trim(), header.slice(index + 1).trim()]
+}
+
+/** Parses JSON or YAML depending on the content, as file extensions and content types can't be relied on */
+const parseDocument = (content: string, source: string): unknown => {
+    const format = /^\s*[{[]/.test(content) ? 'JSON' : 'YAML'
+    try {
+        return format === 'JSON' ? JSON.parse(content) : YAML.parse(content)
+    } catch (error) {
+        throw new Error(`Failed to parse ${source} as ${format}: ${(error as Error).message}`)
+    }
+}
+
+const toOpenApi = (document: unknown, source: string): OpenApiIR => {
+    if (!document || typeof document !== 'object' || !('openapi' in document || 'swagger' in document)) {
+        throw new Error(`${source} is not an OpenAPI or Swagger document`)
+    }
+    return isSwagger2(document) ? convertSwagger2(document) : (document as unknown as OpenApiIR)
+}
+
+export const parseSpec = (content: string, source: string): OpenApiIR =>
+    toOpenApi(parseDocument(content, source), source)
+
+const sourceOf = (url: URL) => (url.protocol === 'file:' ? fileURLToPath(url) : url.href)
+
+const readLocation = (url: URL, headers: Record<string, string>): Promise<string> => {
+    return url.protocol === 'file:' ? fs.readFile(fileURLToPath(url), 'utf-8') : fetchDocument(url.href, headers)
+}
+
+/**
+ * Loads a spec from a file path, an http(s) URL or stdin (`-`). Refs to other files are resolved
+ * relative to the spec, or to the working directory for stdin.
+ */
+export const loadSpec = async (input: string, options: LoadSpecOptions = {}): Promise<OpenApiIR> => {
+    const location =
+        input === '-'
+            ? pathToFileURL(`${process.cwd()}${path.sep}`)
+            : isUrl(input)
+              ? new URL(input)
+              : pathToFileURL(path.resolve(input))
+    // credentials aren't passed on to other origins
+    const headers = (url: URL) => (url.origin === location.origin ? (options.headers ?? {}) : {})
+    const source = input === '-' ? 'stdin' : sourceOf(location)
+    const content =
+        input === '-'
+            ? await readStream(options.stdin ?? process.stdin)
+            : await readLocation(location, headers(location))
+    const document = parseDocument(content, source)
+    return hoistExternalRefs(toOpenApi(document, source), document, location, async (url) =>
+        parseDocument(await readLocation(url, headers(url)), sourceOf(url)),
+    )
+}
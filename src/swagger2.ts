@@ -0,0 +1,204 @@
+import {
+    OpenAPIParameter,
+    OpenApiIR,
+    Operation,
+    RequestBody,
+    Responses,
+    Schema,
+    SchemaRef,
+    Swagger2Operation,
+    Swagger2Parameter,
+    Swagger2Response,
+    Swagger2Spec,
+} from './types'
+
+const OPERATION_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch']
+
+const REF_PREFIXES: [from: string, to: string][] = [
+    ['#/definitions/', '#/components/schemas/'],
+    ['#/parameters/', '#/components/parameters/'],
+    ['#/responses/', '#/components/responses/'],
+]
+
+export const isSwagger2 = (spec: unknown): spec is Swagger2Spec => {
+    return !!spec && typeof spec === 'object' && String((spec as Swagger2Spec).swagger).startsWith('2')
+}
+
+/**
+ * Rewrites Swagger 2.0 local refs to their OpenAPI 3 location, e.g.
+ * `#/definitions/Pet` -> `#/components/schemas/Pet`
+ */
+const rewriteRefs = <T>(value: T): T => {
+    if (Array.isArray(value)) return value.map(rewriteRefs) as T
+    if (!value || typeof value !== 'object') return value
+
+    return Object.fromEntries(
+        Object.entries(value).map(([key, v]) => {
+            if (key === '$ref' && typeof v === 'string') {
+                const prefix = REF_PREFIXES.find(([from]) => v.startsWith(from))
+                return [key, prefix ? `${prefix[1]}${v.slice(prefix[0].length)}` : v]
+            }
+            return [key, rewriteRefs(v)]
+        }),
+    ) as T
+}
+
+/** Swagger 2.0 non-body parameters carry the schema keywords inline */
+const toParameterSchema = (param: Swagger2Parameter): Schema => {
+    const { name, in: _in, required, description, collectionFormat, allowEmptyValue, ...schema } = param
+    if (schema.type === 'file') return { type: 'string', format: 'binary' } as Schema
+    return schema as Schema
+}
+
+/** Parameters staying parameters in OpenAPI 3, unlike body and formData ones */
+type Swagger2LocationParameter = Swagger2Parameter & { in: OpenAPIParameter['in'] }
+
+const isLocationParameter = (param: Swagger2Parameter): param is Swagger2LocationParameter =>
+    param.in !== 'body' && param.in !== 'formData'
+
+/** `resolved` is the parameter `param` refers to, or `param` itself */
+const convertParameter = (
+    param: Swagger2Parameter,
+    resolved: Swagger2LocationParameter,
+): OpenAPIParameter | SchemaRef => {
+    if (param.$ref) return { $ref: param.$ref }
+    return {
+        name: resolved.name,
+        in: resolved.in,
+        required: resolved.in === 'path' ? true : !!resolved.required,
+        description: resolved.description,
+        schema: toParameterSchema(resolved),
+    }
+}
+
+const convertRequestBody = (params: Swagger2Parameter[], consumes: string[]): RequestBody | undefined => {
+    const body = params.find((p) => p.in === 'body')
+    if (body) {
+        return {
+            description: body.description,
+            required: !!body.required,
+            content: Object.fromEntries(consumes.map((mime) => [mime, { schema: body.schema ?? {} }])),
+        }
+    }
+
+    const formData = params.filter((p) => p.in === 'formData')
+    if (!formData.length) return undefined
+
+    const hasFile = formData.some((p) => p.type === 'file')
+    const formMimes = consumes.filter(
+        (mime) => mime === 'multipart/form-data' || mime === 'application/x-www-form-urlencoded',
+    )
+    const mimes = formMimes.length ? formMimes : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded']
+    const schema: Schema = {
+        type: 'object',
+        properties: Object.fromEntries(formData.map((p) => [p.name, toParameterSchema(p)])),
+        required: formData.filter((p) => p.required).map((p) => p.name),
+    } as Schema
+
+    return {
+        required: formData.some((p) => p.required),
+        content: Object.fromEntries(mimes.map((mime) => [mime, { schema }])),
+    }
+}
+
+const convertResponse = (response: Swagger2Response, produces: string[]): Responses[string] => {
+    if (response.$ref) return { $ref: response.$ref }
+    return {
+        description: response.description,
+        headers: response.headers
+            ? Object.fromEntries(
+                  Object.entries(response.headers).map(([name, { description, ...schema }]) => [
+                      name,
+                      { description, schema },
+                  ]),
+              )
+            : undefined,
+        content: response.schema
+            ? Object.fromEntries(
+                  produces.map((mime) => [mime, { schema: response.schema, example: response.examples?.[mime] }]),
+              )
+            : undefined,
+    }
+}
+
+const convertOperation = (op: Swagger2Operation, pathParams: Swagger2Parameter[], spec: Swagger2Spec): Operation => {
+    const { consumes, produces, parameters, responses, schemes, ...rest } = op
+    const resolve = (params: Swagger2Parameter[]) =>
+        params.map((param) => ({ param, resolved: resolveParameter(param, spec) }))
+    const own = resolve(parameters ?? [])
+    // operation level parameters override path level ones with the same name and location, refs included
+    const shared = resolve(pathParams).filter(
+        ({ resolved }) => !own.some((o) => o.resolved.name === resolved.name && o.resolved.in === resolved.in),
+    )
+    const allParams = [...own, ...shared]
+
+    const requestBody = convertRequestBody(
+        allParams.map(({ resolved }) => resolved),
+        consumes ?? spec.consumes ?? ['application/json'],
+    )
+    const producedMimes = produces ?? spec.produces ?? ['application/json']
+
+    return {
+        ...rest,
+        parameters: allParams.flatMap(({ param, resolved }) =>
+            isLocationParameter(resolved) ? [convertParameter(param, resolved)] : [],
+        ),
+        ...(requestBody ? { requestBody } : {}),
+        responses: Object.fromEntries(
+            Object.entries(responses ?? {}).map(([status, resp]) => [status, convertResponse(resp, producedMimes)]),
+        ),
+    }
+}
+
+/**
+ * Follows refs (already rewritten) to shared parameters, as body and formData ones become a request body
+ * and overriding path level parameters is decided by name and location
+ */
+const resolveParameter = (param: Swagger2Parameter, spec: Swagger2Spec): Swagger2Parameter => {
+    const prefix = '#/components/parameters/'
+    if (!param.$ref?.startsWith(prefix)) return param
+    return spec.parameters?.[param.$ref.slice(prefix.length)] ?? param
+}
+
+/**
+ * Converts a Swagger 2.0 document into the OpenAPI 3 shape the generator works with:
+ * `definitions` become `components.schemas`, body and formData parameters become a
+ * `requestBody` and response schemas are expanded for every `produces` mime type.
+ */
+export const convertSwagger2 = (input: Swagger2Spec): OpenApiIR => {
+    const spec = rewriteRefs(input)
+    const produces = spec.produces ?? ['application/json']
+
+    const paths = Object.fromEntries(
+        Object.entries(spec.paths ?? {}).map(([pathKey, pathItem]) => {
+            const pathParams = pathItem.parameters ?? []
+            const methods = Object.fromEntries(
+                Object.entries(pathItem)
+                    .filter(([method]) => OPERATION_METHODS.includes(method))
+                    .map(([method, op]) => [method, convertOperation(op as Swagger2Operation, pathParams, spec)]),
+            )
+            return [pathKey, methods]
+        }),
+    )
+
+    const parameters = Object.fromEntries(
+        Object.entries(spec.parameters ?? {}).flatMap(([name, p]) =>
+            isLocationParameter(p) ? [[name, convertParameter(p, p)]] : [],
+        ),
+    )
+
+    const responses = Object.fromEntries(
+        Object.entries(spec.responses ?? {}).map(([name, r]) => [name, convertResponse(r, produces)]),
+    )
+
+    return {
+        openapi: '3.0.3',
+        info: spec.info,
+        paths,
+        components: {
+            schemas: spec.definitions ?? {},
+            parameters,
+            responses,
+        },
+    }
+}
@@ -6,19 +6,48 @@ export const isSchemaRef = (s: SchemaRef | Schema): s is SchemaRef => {
 
 export type SchemaRef = { $ref: string } // keep for later resolution
 
+export type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null'
+
 export interface Schema {
-    anyOf: (Schema | SchemaRef)[]
-    oneOf: (Schema | SchemaRef)[]
-    allOf: (Schema | SchemaRef)[]
-    not: (Schema | SchemaRef)[]
-    type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array'
+    anyOf?: (Schema | SchemaRef)[]
+    oneOf?: (Schema | SchemaRef)[]
+    allOf?: (Schema | SchemaRef)[]
+    not?: (Schema | SchemaRef)[]
+    type?: SchemaType | SchemaType[] // OAS 3.1 allows a list of types, e.g. ['string', 'null']
+    const?: any
+    nullable?: boolean // OAS 3.0, replaced by type lists in 3.1
     properties?: Record<string, Schema | SchemaRef>
-    items?: Schema | SchemaRef
+    items?: Schema | SchemaRef | false // false closes a prefixItems tuple
+    prefixItems?: (Schema | SchemaRef)[]
+    $defs?: Record<string, Schema | SchemaRef>
+    additionalProperties?: boolean | Schema | SchemaRef
+    patternProperties?: Record<string, Schema | SchemaRef>
+    unevaluatedProperties?: boolean | Schema | SchemaRef
     required?: string[]
+    discriminator?: { propertyName: string; mapping?: Record<string, string> }
     enum?: any[]
     format?: string
+    minLength?: number
+    maxLength?: number
+    pattern?: string
+    minimum?: number
+    maximum?: number
+    exclusiveMinimum?: boolean | number // boolean in OAS 3.0, number in 3.1
+    exclusiveMaximum?: boolean | number
+    multipleOf?: number
+    minItems?: number
+    maxItems?: number
+    uniqueItems?: boolean
+    readOnly?: boolean // left out of request types
+    writeOnly?: boolean // left out of response types
     description?: string
     example?: any
+    examples?: any[] // OAS 3.1 / JSON Schema 2020-12
+    'x-ts-type'?: string // TS type used instead of the mapped one, e.g. `Money`
+    'x-ts-import'?: string // module `x-ts-type` (and `x-zod-schema`) is imported from
+    'x-zod-schema'?: string // exported Zod schema of `x-ts-import` validating `x-ts-type`
+    'x-enum-varnames'?: string[] // member names of the enum values, in the same order
+    'x-enum-descriptions'?: string[] // JSDoc of the enum values, in the same order
 }
 
 export interface OpenAPIParameter {
@@ -26,41 +55,67 @@ export interface OpenAPIParameter {
     required: boolean
     in: 'path' | 'query' | 'header' | 'cookie'
     schema: Schema | SchemaRef
+    description?: string
     $ref?: string // TODO: create discriminated union as $ref and other props are mutually exclusive
 }
 
+export interface Encoding {
+    contentType?: string
+    headers?: Record<string, any>
+    style?: string
+    explode?: boolean
+}
+
 export interface MediaTypeObject {
     schema: Schema | SchemaRef
+    encoding?: Record<string, Encoding>
 }
 
 export interface RequestBody {
-    schema: Schema | SchemaRef
-    contentType: string
+    schema?: Schema | SchemaRef
+    contentType?: string
+    description?: string
+    required?: boolean
     content?: Record<string, MediaTypeObject>
+    $ref?: string
 }
 
 export interface MediaType {
     schema?: Schema | SchemaRef
     example?: any
     examples?: Record<string, any>
-    encoding?: Record<string, any>
+    encoding?: Record<string, Encoding>
 }
 
 export interface OpenAPIResponse {
     description?: string
     headers?: Record<string, any>
     content?: Record<string, MediaType>
+    $ref?: string
+}
+
+export interface OpenAPIHeader {
+    description?: string
+    required?: boolean
+    schema?: Schema | SchemaRef
 }
 
 export type Responses = Record<string, OpenAPIResponse>
 
 export interface Operation {
-    operationId: string
+    operationId?: string
     summary?: string
     description?: string
-    parameters: OpenAPIParameter[]
+    parameters: (OpenAPIParameter | SchemaRef)[]
     requestBody?: RequestBody
     responses: Responses
+    'x-pagination'?: Pagination
+}
+
+/** Marks an operation as paginated by one of its query parameters */
+export interface Pagination {
+    /** query parameter holding the page, offset or cursor */
+    pageParam: string
 }
 
 export interface PathItem {
@@ -68,7 +123,10 @@ export interface PathItem {
 }
 
 export interface OpenApiIR {
-    paths: Record<string, Record<string, Operation>>
+    openapi?: string
+    info?: Record<string, any>
+    /** operations by method, next to the parameters shared by the operations of the path */
+    paths: Record<string, Record<string, Operation> & { parameters?: (OpenAPIParameter | SchemaRef)[] }>
     components: Record<string, Schema>
 }
 
@@ -76,6 +134,8 @@ export interface TypedParam {
     param: OpenAPIParameter
     typeNode: TypeNode
     typeName: string
+    /** name of the `Components.Parameters` (or `Components.Headers`) type the parameter refers to */
+    ref?: string
 }
 
 export interface OperationIR {
@@ -90,11 +150,35 @@ export interface OperationIR {
         header: TypedParam[]
         cookie: TypedParam[]
     }
-    requestBody?: {
-        contentType: string
-        type: TypeNode
-    }
-    responses: Responses
+    requestBody?: RequestBodyIR
+    responses: Record<string, ResponseIR>
+    pagination?: Pagination
+}
+
+export interface RequestBodyIR {
+    contentType: string
+    type: TypeNode
+    required: boolean
+    media: RequestBodyMediaIR[]
+    /** name of the `Components.RequestBodies` type the body refers to */
+    ref?: string
+}
+
+export interface ResponseIR extends OpenAPIResponse {
+    /** union of the media type schemas, undefined without content */
+    type?: TypeNode
+    /** name of the `Components.Responses` type the response refers to */
+    ref?: string
+    /** response headers typed like header parameters, without `Content-Type` */
+    typedHeaders?: TypedParam[]
+}
+
+export interface RequestBodyMediaIR {
+    contentType: string
+    /** type name of the media type, e.g. `Json` or `Multipart` */
+    name: string
+    type: TypeNode
+    encoding?: Record<string, Encoding>
 }
 
 export interface ComponentIR {
@@ -102,3 +186,99 @@ export interface ComponentIR {
     type: TypeNode
     description?: string
 }
+
+/** `components.parameters`, `responses`, `requestBodies` and `headers` by their type name */
+export interface SharedComponentsIR {
+    parameters: Record<string, TypedParam>
+    responses: Record<string, ResponseIR>
+    requestBodies: Record<string, RequestBodyIR>
+    headers: Record<string, TypeNode>
+}
+
+export interface FormatType {
+    ts: string
+    zod: string
+}
+
+export interface TypeOverride {
+    /** TS type, e.g. `Money` */
+    type: string
+    /** module the type and Zod schema are imported from, written to the output as is */
+    import?: string
+    /** exported Zod schema of the module, `z.custom<Type>()` otherwise */
+    zod?: string
+}
+
+/** User defined types replacing generated ones, see the `--type-overrides` config */
+export interface TypeOverrides {
+    /** per component schema name */
+    components?: Record<string, TypeOverride>
+    /** per `format`, takes precedence over `formatTypes` */
+    formats?: Record<string, TypeOverride>
+}
+
+export interface ImportIR {
+    name: string
+    /** local name when `name` clashes with a generated declaration */
+    alias?: string
+    from: string
+    typeOnly: boolean
+}
+
+/** How named enums are declared: a literal union, a TS `enum` or an `as const` object with a values array */
+export type EnumStyle = 'union' | 'enum' | 'const'
+
+export interface SchemaMappingOptions {
+    /** TS and Zod types per `format`, e.g. `date-time` -> `Date` */
+    formatTypes?: Record<string, FormatType>
+    enumStyle?: EnumStyle
+    typeOverrides?: TypeOverrides
+    /** generated names imported types are aliased from, e.g. the component names */
+    reservedNames?: Set<string>
+    /** component names of refs not named after their last segment, e.g. `$defs` named after their schema */
+    refNames?: Record<string, string>
+}
+
+export interface Swagger2Parameter {
+    name: string
+    in: 'path' | 'query' | 'header' | 'formData' | 'body'
+    required?: boolean
+    description?: string
+    schema?: Schema | SchemaRef
+    type?: SchemaType | 'file'
+    collectionFormat?: string
+    allowEmptyValue?: boolean
+    $ref?: string
+    [keyword: string]: any
+}
+
+export interface Swagger2Response {
+    description?: string
+    schema?: Schema | SchemaRef
+    headers?: Record<string, { description?: string; [keyword: string]: any }>
+    examples?: Record<string, any>
+    $ref?: string
+}
+
+export interface Swagger2Operation {
+    operationId?: string
+    summary?: string
+    description?: string
+    consumes?: string[]
+    produces?: string[]
+    schemes?: string[]
+    parameters?: Swagger2Parameter[]
+    responses?: Record<string, Swagger2Response>
+    [key: string]: any
+}
+
+export interface Swagger2Spec {
+    swagger: string
+    info?: Record<string, any>
+    consumes?: string[]
+    produces?: string[]
+    paths?: Record<string, Record<string, Swagger2Operation> & { parameters?: Swagger2Parameter[] }>
+    definitions?: Record<string, Schema>
+    parameters?: Record<string, Swagger2Parameter>
+    responses?: Record<string, Swagger2Response>
+}